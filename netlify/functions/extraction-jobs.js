@@ -0,0 +1,88 @@
+import { authorizeRefresh, ExtractionError } from '../../supabase/functions/_shared/extraction.ts';
+import { cancelJob, failJob, getJob, getJobStore, JobStateError, retryJob, submitJob } from '../../supabase/functions/_shared/extractionJobs.ts';
+
+// Enable CORS
+const headers = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+};
+
+// Starts the background worker; it answers as soon as the job is handed over
+const startWorker = async (req, id) => {
+  const response = await fetch(new URL('/.netlify/functions/process-extraction-job-background', req.url), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ id })
+  });
+  if (!response.ok) {
+    throw new Error('Failed to start the extraction worker');
+  }
+};
+
+// A job whose worker never started would wait in the queue forever; failing it lets the
+// client see why and retry it
+const startWorkerOrFail = async (req, store, id) => {
+  try {
+    await startWorker(req, id);
+  } catch (error) {
+    await failJob(store, id, error).catch((storeError) => console.error('Error failing job:', id, storeError));
+    throw error;
+  }
+};
+
+const statusFor = (error) => {
+  if (error instanceof JobStateError) return error.reason === 'not-found' ? 404 : 409;
+  if (error instanceof ExtractionError) return 400;
+  return 500;
+};
+
+// Background extraction jobs, for PDFs too long for process-worksheet's time limit:
+//   POST                      submit an ExtractionRequest; answers 202 with the job
+//   GET  ?id=                 the job, with its progress and, once done, the result
+//   POST ?id=&action=cancel   stop a queued or running job
+//   POST ?id=&action=retry    run a failed or cancelled job again
+export default async (req) => {
+  // Handle preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('', { status: 200, headers });
+  }
+
+  try {
+    const store = getJobStore((key) => process.env[key]);
+    const params = new URL(req.url).searchParams;
+    const id = params.get('id');
+    const action = params.get('action');
+
+    if (req.method === 'GET' && id) {
+      return Response.json(await getJob(store, id), { headers });
+    }
+
+    if (req.method === 'POST' && !id) {
+      const request = await req.json();
+      // The worker trusts the refresh flag stored with the job, so it's checked here
+      authorizeRefresh(request, process.env.TEACHER_CODE);
+      const job = await submitJob(store, request);
+      await startWorkerOrFail(req, store, job.id);
+      return Response.json(job, { status: 202, headers });
+    }
+
+    if (req.method === 'POST' && action === 'cancel') {
+      return Response.json(await cancelJob(store, id), { headers });
+    }
+
+    if (req.method === 'POST' && action === 'retry') {
+      const job = await retryJob(store, id);
+      await startWorkerOrFail(req, store, job.id);
+      return Response.json(job, { status: 202, headers });
+    }
+
+    return Response.json({ error: 'Unknown job request' }, { status: 400, headers });
+  } catch (error) {
+    console.error('Error handling extraction job:', error);
+    return Response.json(
+      { error: error.message || 'Failed to handle extraction job', stage: error.stage },
+      { status: statusFor(error), headers }
+    );
+  }
+};
@@ -0,0 +1,26 @@
+import crypto from 'crypto';
+import { getExtractionCache } from '../../supabase/functions/_shared/extractionCache.ts';
+import { failJob, getJobStore, runJob } from '../../supabase/functions/_shared/extractionJobs.ts';
+import { getModelProvider } from '../../supabase/functions/_shared/modelProvider.ts';
+import { readPdfPages } from '../lib/readPdfPages.js';
+
+// Worker for extraction-jobs. The -background suffix makes Netlify answer the caller
+// straight away and give the function up to 15 minutes.
+export default async (req) => {
+  const { id } = await req.json();
+  const env = (key) => process.env[key];
+  const store = getJobStore(env);
+
+  try {
+    await runJob(store, id, {
+      provider: getModelProvider(env),
+      cache: getExtractionCache(env),
+      createId: () => crypto.randomUUID(),
+      readPdfPages
+    });
+  } catch (error) {
+    // Nobody is waiting on this response, so the job has to say what went wrong
+    console.error('Error running extraction job:', id, error);
+    await failJob(store, id, error).catch((storeError) => console.error('Error failing job:', id, storeError));
+  }
+};
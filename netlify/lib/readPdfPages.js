@@ -0,0 +1,22 @@
+// The library entry point; the package's index runs a self-test when bundled
+import pdfParse from 'pdf-parse/lib/pdf-parse.js';
+
+// pdf-parse's default page renderer, but keeping each page's text separately.
+// Pages are rendered one after another, so they arrive in order.
+export const readPdfPages = async (data) => {
+  const pages = [];
+  await pdfParse(data, {
+    pagerender: async (pageData) => {
+      const content = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+      let lastY;
+      let text = '';
+      for (const item of content.items) {
+        text += lastY === undefined || lastY === item.transform[5] ? item.str : '\n' + item.str;
+        lastY = item.transform[5];
+      }
+      pages.push(text);
+      return text;
+    }
+  });
+  return pages;
+};
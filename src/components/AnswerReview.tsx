@@ -0,0 +1,138 @@
+import React from "react";
+import { Question, Worksheet, WorksheetSection } from "@/types";
+import { Card } from "@/components/ui/card";
+import { Check, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import BlankSentence from "@/components/BlankSentence";
+import MediaGallery from "@/components/MediaGallery";
+import LabelDiagram from "@/components/LabelDiagram";
+import { formatAnswer, isAnswerMap } from "@/utils/answers";
+import { isMultiBlank } from "@/utils/blanks";
+import { gradeBlanks, gradeLabels } from "@/utils/grading";
+import { getExtraMedia } from "@/utils/hotspots";
+import { formatPoints, scoreQuestion, scoreSection } from "@/utils/scoring";
+
+interface AnswerReviewProps {
+  worksheet: Worksheet;
+}
+
+const AnswerReview = ({ worksheet }: AnswerReviewProps) => {
+  const renderQuestion = (question: Question, index: number) => {
+    const isPartial = !question.isCorrect && (question.score || 0) > 0;
+    const points = scoreQuestion(question);
+    const blankAnswers = Array.isArray(question.userAnswer) ? question.userAnswer : [];
+    const labels = isAnswerMap(question.userAnswer) ? question.userAnswer : {};
+
+    return (
+      <div
+        key={question.id}
+        className={cn(
+          "rounded-xl p-3 border",
+          question.isCorrect
+            ? "border-green-200 bg-green-50"
+            : isPartial
+            ? "border-yellow-200 bg-yellow-50"
+            : "border-red-200 bg-red-50"
+        )}
+      >
+        <div className="flex items-start gap-2">
+          {question.isCorrect ? (
+            <Check className="h-4 w-4 mt-1 text-green-500 flex-shrink-0" />
+          ) : (
+            <X className={cn(
+              "h-4 w-4 mt-1 flex-shrink-0",
+              isPartial ? "text-yellow-500" : "text-red-500"
+            )} />
+          )}
+          <div className="text-sm flex-grow">
+            <div className="flex justify-between gap-3">
+              <p className="font-medium">
+                {index + 1}. {question.text}
+              </p>
+              <span className="text-gray-500 whitespace-nowrap">
+                {formatPoints(points.earned)}/{formatPoints(points.possible)} pts
+              </span>
+            </div>
+            <MediaGallery media={getExtraMedia(question)} className="my-2" />
+            {isMultiBlank(question) ? (
+              <BlankSentence
+                question={question}
+                answers={blankAnswers}
+                grades={gradeBlanks(blankAnswers, question, worksheet.settings?.grading)}
+                className="mt-1 leading-normal text-gray-700"
+              />
+            ) : question.type === "label-diagram" ? (
+              <LabelDiagram
+                question={question}
+                labels={labels}
+                grades={gradeLabels(labels, question, worksheet.settings?.grading)}
+                className="mt-2"
+              />
+            ) : (
+              <p className="mt-1 text-gray-700">
+                Your answer: {formatAnswer(question, question.userAnswer)}
+              </p>
+            )}
+            {question.feedback && (
+              <p className="mt-1 text-gray-600 italic">{question.feedback}</p>
+            )}
+            {question.attempts && question.attempts.length > 1 && (
+              <p className="mt-1 text-gray-500">
+                {question.attempts.length} attempts; first answer:{" "}
+                {formatAnswer(question, question.attempts[0].answer)}
+              </p>
+            )}
+            {!question.isCorrect && !isMultiBlank(question) && question.type !== "label-diagram" && (
+              <p className="mt-1 text-green-700">
+                Correct answer: {formatAnswer(question, question.correctAnswer)}
+              </p>
+            )}
+            {question.explanation && (
+              <p className="mt-1 text-gray-600 whitespace-pre-line">
+                <span className="font-medium">Explanation:</span> {question.explanation}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderSection = (section: WorksheetSection) => {
+    const sectionScore = scoreSection(section);
+
+    return (
+      <div key={section.id}>
+        <div className="flex justify-between gap-3 mb-3">
+          <h4 className="font-medium text-quiz-dark">
+            {section.title}
+            {section.page && <span className="font-normal text-gray-500"> · Page {section.page}</span>}
+          </h4>
+          <span className="text-sm font-medium text-gray-600 whitespace-nowrap">
+            {formatPoints(sectionScore.earned)}/{formatPoints(sectionScore.possible)} pts
+          </span>
+        </div>
+
+        <MediaGallery media={section.media} className="mb-3" />
+
+        <div className="space-y-3">
+          {section.questions.map(renderQuestion)}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Card className="p-6 shadow-lg rounded-3xl border-none animate-fade-in mb-6">
+      <h3 className="text-lg font-medium mb-4 text-quiz-dark">
+        Review Answers
+      </h3>
+
+      <div className="space-y-6">
+        {worksheet.sections.map(renderSection)}
+      </div>
+    </Card>
+  );
+};
+
+export default AnswerReview;
@@ -0,0 +1,83 @@
+import React from "react";
+import { Question } from "@/types";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { getBlankAnswers, splitBlanks } from "@/utils/blanks";
+import { GradeResult } from "@/utils/grading";
+
+interface BlankSentenceProps {
+  question: Question;
+  answers: string[];
+  // Leave out to render the completed sentence read-only
+  onChange?: (answers: string[]) => void;
+  // Per-blank results; when present each blank is marked right or wrong
+  grades?: GradeResult[];
+  // Locks the answer without marking it, e.g. while a retry is offered
+  disabled?: boolean;
+  className?: string;
+}
+
+const BlankSentence = ({ question, answers, onChange, grades, disabled, className }: BlankSentenceProps) => {
+  const parts = splitBlanks(question.text);
+  const expected = getBlankAnswers(question);
+
+  const handleChange = (index: number, value: string) => {
+    const next = [...answers];
+    next[index] = value;
+    onChange?.(next);
+  };
+
+  const renderBlank = (index: number) => {
+    const grade = grades?.[index];
+    const value = answers[index] || "";
+
+    const correction = grade && !grade.isCorrect && (
+      <span className="text-green-700 font-medium ml-1">({expected[index]})</span>
+    );
+
+    if (!onChange) {
+      return (
+        <span key={`blank-${index}`}>
+          <span className={cn(
+            "px-1 border-b-2 font-medium",
+            !grade ? "border-gray-400" : grade.isCorrect ? "border-green-500 text-green-700" : "border-red-500 text-red-700"
+          )}>
+            {value || "___"}
+          </span>
+          {correction}
+        </span>
+      );
+    }
+
+    return (
+      <span key={`blank-${index}`} className="inline-flex items-baseline">
+        <Input
+          type="text"
+          aria-label={`Blank ${index + 1}`}
+          value={value}
+          onChange={(e) => handleChange(index, e.target.value)}
+          disabled={disabled || !!grades}
+          autoFocus={index === 0}
+          className={cn(
+            "inline-block w-32 h-9 mx-1 px-2 text-lg rounded-lg align-baseline disabled:opacity-100",
+            !grade ? "" : grade.isCorrect ? "border-green-500 bg-green-50" : "border-red-500 bg-red-50"
+          )}
+        />
+        {correction}
+      </span>
+    );
+  };
+
+  return (
+    <p className={cn("leading-[2.75rem]", className)}>
+      {parts.map((part, index) => (
+        <React.Fragment key={`part-${index}`}>
+          {part}
+          {index < parts.length - 1 && renderBlank(index)}
+        </React.Fragment>
+      ))}
+    </p>
+  );
+};
+
+export default BlankSentence;
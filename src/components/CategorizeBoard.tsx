@@ -0,0 +1,153 @@
+import React, { useState } from "react";
+import { AnswerMap, Question } from "@/types";
+import { Check, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { isAnswerMap } from "@/utils/answers";
+
+interface CategorizeBoardProps {
+  question: Question;
+  assignments: AnswerMap;
+  onChange: (assignments: AnswerMap) => void;
+  showResults: boolean;
+  // Locks the answer without marking it, e.g. while a retry is offered
+  disabled?: boolean;
+}
+
+// Tap (or drag) an item, then the category it belongs in. Categories take any number
+// of items; tapping a sorted item sends it back to the pile.
+const CategorizeBoard = ({ question, assignments, onChange, showResults, disabled }: CategorizeBoardProps) => {
+  const locked = showResults || !!disabled;
+  const [activeItemId, setActiveItemId] = useState<string | null>(null);
+  const items = question.items || [];
+  const categories = question.options || [];
+  const expected = isAnswerMap(question.correctAnswer) ? question.correctAnswer : {};
+  const unsorted = items.filter(item => !assignments[item.id]);
+
+  const assign = (itemId: string, categoryId: string) => {
+    const next = { ...assignments, [itemId]: categoryId };
+    onChange(next);
+
+    // Move straight on to the next item that still needs sorting
+    const nextItem = items.find(item => !next[item.id]);
+    setActiveItemId(nextItem ? nextItem.id : null);
+  };
+
+  const handleItemClick = (itemId: string) => {
+    if (locked) return;
+
+    if (assignments[itemId]) {
+      const { [itemId]: _removed, ...rest } = assignments;
+      onChange(rest);
+      setActiveItemId(itemId);
+      return;
+    }
+
+    setActiveItemId(activeItemId === itemId ? null : itemId);
+  };
+
+  const handleCategoryClick = (categoryId: string) => {
+    if (locked || !activeItemId) return;
+    assign(activeItemId, categoryId);
+  };
+
+  const handleDrop = (e: React.DragEvent, categoryId: string) => {
+    e.preventDefault();
+    const itemId = e.dataTransfer.getData("text/plain");
+    if (!locked && items.some(item => item.id === itemId)) {
+      assign(itemId, categoryId);
+    }
+  };
+
+  const renderItem = (itemId: string, text: string) => {
+    const categoryId = assignments[itemId];
+    const isRight = categoryId && categoryId === expected[itemId];
+
+    return (
+      <button
+        key={itemId}
+        type="button"
+        draggable={!locked}
+        onDragStart={(e) => e.dataTransfer.setData("text/plain", itemId)}
+        onClick={(e) => {
+          // Keep the tap from also landing on the category around it
+          e.stopPropagation();
+          handleItemClick(itemId);
+        }}
+        disabled={locked}
+        className={cn(
+          "inline-flex items-center gap-1 rounded-xl px-3 py-2 border text-sm bg-white transition-colors",
+          activeItemId === itemId
+            ? "border-quiz-primary bg-purple-50 ring-2 ring-quiz-primary/30"
+            : "border-gray-200",
+          showResults && isRight ? "border-green-500 bg-green-50" : "",
+          showResults && !isRight ? "border-red-500 bg-red-50" : ""
+        )}
+      >
+        {text}
+        {showResults && (isRight ? (
+          <Check className="h-4 w-4 text-green-500" />
+        ) : (
+          <X className="h-4 w-4 text-red-500" />
+        ))}
+      </button>
+    );
+  };
+
+  return (
+    <div className="mt-4 space-y-4">
+      {!showResults && (
+        <div>
+          <p className="text-sm text-gray-500 mb-2">
+            {unsorted.length > 0
+              ? activeItemId
+                ? "Now tap the group it belongs in"
+                : "Tap an item, then the group it belongs in"
+              : "All sorted! Tap an item to move it."}
+          </p>
+          <div className="flex flex-wrap gap-2 min-h-[2.5rem]">
+            {unsorted.map(item => renderItem(item.id, item.text))}
+          </div>
+        </div>
+      )}
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        {categories.map(category => {
+          const sorted = items.filter(item => assignments[item.id] === category.id);
+          const missed = showResults
+            ? items.filter(item => expected[item.id] === category.id && assignments[item.id] !== category.id)
+            : [];
+
+          return (
+            <div
+              key={category.id}
+              role="button"
+              tabIndex={locked ? -1 : 0}
+              onClick={() => handleCategoryClick(category.id)}
+              onKeyDown={(e) => e.key === "Enter" && handleCategoryClick(category.id)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => handleDrop(e, category.id)}
+              className={cn(
+                "rounded-xl p-3 border-2 border-dashed min-h-[6rem] transition-colors",
+                activeItemId && !locked
+                  ? "border-quiz-primary hover:bg-purple-50 cursor-pointer"
+                  : "border-gray-200"
+              )}
+            >
+              <p className="font-medium mb-2">{category.text}</p>
+              <div className="flex flex-wrap gap-2">
+                {sorted.map(item => renderItem(item.id, item.text))}
+              </div>
+              {missed.length > 0 && (
+                <p className="text-sm mt-2 text-green-700">
+                  Also belongs here: {missed.map(item => item.text).join(", ")}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CategorizeBoard;
@@ -0,0 +1,139 @@
+import React from "react";
+import { AnswerMap, Question } from "@/types";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { GradeResult } from "@/utils/grading";
+import { getDiagram, getExpectedLabels, getHotspotPosition, getHotspots } from "@/utils/hotspots";
+
+interface LabelDiagramProps {
+  question: Question;
+  labels: AnswerMap;
+  // Leave out to render the labelled diagram read-only
+  onChange?: (labels: AnswerMap) => void;
+  // Per-hotspot results, in hotspot order; when present each label is marked right or wrong
+  grades?: GradeResult[];
+  // Locks the answer without marking it, e.g. while a retry is offered
+  disabled?: boolean;
+  className?: string;
+}
+
+// The cropped diagram with numbered markers, and one label per marker underneath.
+// With a word bank (options) labels are picked from a list, otherwise typed.
+const LabelDiagram = ({ question, labels, onChange, grades, disabled, className }: LabelDiagramProps) => {
+  const diagram = getDiagram(question);
+  const hotspots = getHotspots(question);
+  const expected = getExpectedLabels(question);
+  const wordBank = question.options || [];
+
+  const setLabel = (hotspotId: string, value: string) =>
+    onChange?.({ ...labels, [hotspotId]: value });
+
+  const getMarkerClass = (grade?: GradeResult) =>
+    !grade ? "bg-quiz-primary" : grade.isCorrect ? "bg-green-500" : "bg-red-500";
+
+  const renderLabelInput = (hotspotId: string, index: number) => {
+    const grade = grades?.[index];
+    const value = labels[hotspotId] || "";
+    const fieldClass = cn(
+      "flex-grow rounded-lg",
+      !grade ? "" : grade.isCorrect ? "border-green-500 bg-green-50" : "border-red-500 bg-red-50"
+    );
+
+    if (!onChange) {
+      return (
+        <span className={cn("flex-grow font-medium", grade && !grade.isCorrect && "text-red-700")}>
+          {value || "—"}
+        </span>
+      );
+    }
+
+    if (wordBank.length > 0) {
+      return (
+        <Select value={value} onValueChange={(next) => setLabel(hotspotId, next)} disabled={disabled || !!grades}>
+          <SelectTrigger aria-label={`Label ${hotspotId}`} className={fieldClass}>
+            <SelectValue placeholder="Choose a label" />
+          </SelectTrigger>
+          <SelectContent>
+            {wordBank.map(option => (
+              <SelectItem key={option.id} value={option.text}>{option.text}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    return (
+      <Input
+        type="text"
+        aria-label={`Label ${hotspotId}`}
+        placeholder="Type the label"
+        value={value}
+        onChange={(e) => setLabel(hotspotId, e.target.value)}
+        disabled={disabled || !!grades}
+        className={cn(fieldClass, "disabled:opacity-100")}
+      />
+    );
+  };
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      {diagram?.src && (
+        <div className="relative rounded-xl border bg-white overflow-hidden">
+          <img
+            src={diagram.src}
+            alt={diagram.description || "Diagram to label"}
+            className="w-full"
+          />
+          {hotspots.map((hotspot, index) => {
+            const position = getHotspotPosition(hotspot, diagram);
+            if (!position) return null;
+            return (
+              <span
+                key={hotspot.id}
+                className={cn(
+                  "absolute -translate-x-1/2 -translate-y-1/2 h-6 w-6 rounded-full text-white text-xs font-bold",
+                  "flex items-center justify-center ring-2 ring-white shadow",
+                  getMarkerClass(grades?.[index])
+                )}
+                style={{ left: `${position.left}%`, top: `${position.top}%` }}
+              >
+                {hotspot.id}
+              </span>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {hotspots.map((hotspot, index) => {
+          const grade = grades?.[index];
+          return (
+            <div key={hotspot.id} className="flex items-center gap-3">
+              <span className={cn(
+                "flex-shrink-0 h-7 w-7 rounded-full text-white text-sm font-medium flex items-center justify-center",
+                getMarkerClass(grade)
+              )}>
+                {hotspot.id}
+              </span>
+              {renderLabelInput(hotspot.id, index)}
+              {grade && !grade.isCorrect && (
+                <span className="text-sm text-green-700 font-medium whitespace-nowrap">
+                  ({expected[hotspot.id]})
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default LabelDiagram;
@@ -1,43 +1,122 @@
 
 import React from "react";
-import { Loader } from "lucide-react";
+import { AlertCircle, Check, Circle, Loader, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import { ProcessingStage } from "@/types";
 
 interface LoadingStateProps {
   status: string;
   progress?: number;
+  // Which photo is being read, for uploads of several
+  file?: string;
+  // The stages reported so far; left out for a plain spinner
+  stages?: ProcessingStage[];
+  // Set when processing stopped; the stage that failed shows why
+  error?: string;
+  onRetry?: () => void;
+  // Offered while processing is still running
+  onCancel?: () => void;
 }
 
-const LoadingState = ({ status, progress = 0 }: LoadingStateProps) => {
+const StageIcon = ({ stage }: { stage: ProcessingStage }) => {
+  switch (stage.state) {
+    case "done":
+      return <Check className="h-4 w-4 text-green-600" />;
+    case "active":
+      return <Loader className="h-4 w-4 text-quiz-primary animate-spin" />;
+    case "error":
+      return <X className="h-4 w-4 text-red-600" />;
+    default:
+      return <Circle className="h-4 w-4 text-gray-300" />;
+  }
+};
+
+const LoadingState = ({ status, progress = 0, file, stages, error, onRetry, onCancel }: LoadingStateProps) => {
   return (
     <div className="flex flex-col items-center justify-center p-8 text-center">
-      <div className="relative">
-        <Loader 
-          className="h-14 w-14 text-quiz-primary animate-spin" 
-          strokeWidth={1.5}
-        />
-        <div className="absolute inset-0 flex items-center justify-center">
-          <div className="h-4 w-4 bg-white rounded-full"></div>
+      {error ? (
+        <AlertCircle className="h-14 w-14 text-red-500" strokeWidth={1.5} />
+      ) : (
+        <div className="relative">
+          <Loader
+            className="h-14 w-14 text-quiz-primary animate-spin"
+            strokeWidth={1.5}
+          />
+          <div className="absolute inset-0 flex items-center justify-center">
+            <div className="h-4 w-4 bg-white rounded-full"></div>
+          </div>
         </div>
-      </div>
-      
+      )}
+
       <h3 className="text-lg font-medium mt-6 mb-2">
         {status}
       </h3>
-      
-      <p className="text-sm text-gray-600 mb-6">
-        Please wait while we process your worksheet...
+
+      <p className={cn("text-sm mb-6", error ? "text-red-600" : "text-gray-600")}>
+        {error || file || "Please wait while we process your worksheet..."}
       </p>
-      
-      <div className="w-full max-w-xs">
-        <Progress 
-          value={progress} 
-          className="h-2 bg-gray-200"
-        />
-        <div className="flex justify-end mt-2">
-          <span className="text-sm text-gray-600">{progress}%</span>
+
+      {!error && (
+        <div className="w-full max-w-xs">
+          <Progress
+            value={progress}
+            className="h-2 bg-gray-200"
+          />
+          <div className="flex justify-end mt-2">
+            <span className="text-sm text-gray-600">{progress}%</span>
+          </div>
         </div>
-      </div>
+      )}
+
+      {stages && (
+        <ol className="w-full max-w-xs mt-6 space-y-3 text-left">
+          {stages.map(stage => (
+            <li key={stage.stage} className="flex gap-3">
+              <span className="mt-0.5 flex-shrink-0">
+                <StageIcon stage={stage} />
+              </span>
+              <div className="min-w-0">
+                <p className={cn(
+                  "text-sm font-medium",
+                  stage.state === "pending" && "text-gray-400",
+                  stage.state === "error" && "text-red-700"
+                )}>
+                  {stage.label}
+                </p>
+                {stage.detail && stage.state !== "pending" && (
+                  <p className="text-xs text-gray-500">{stage.detail}</p>
+                )}
+                {stage.errors.map((message, index) => (
+                  <p key={index} className="text-xs text-red-600">{message}</p>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {!error && onCancel && (
+        <Button
+          type="button"
+          variant="outline"
+          className="mt-6 h-12 px-8 rounded-xl"
+          onClick={onCancel}
+        >
+          Cancel
+        </Button>
+      )}
+
+      {error && onRetry && (
+        <Button
+          type="button"
+          className="mt-6 h-12 px-8 bg-quiz-primary hover:bg-quiz-primary/90 rounded-xl"
+          onClick={onRetry}
+        >
+          Try again
+        </Button>
+      )}
     </div>
   );
 };
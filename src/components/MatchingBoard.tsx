@@ -0,0 +1,146 @@
+import React, { useState } from "react";
+import { AnswerMap, Question } from "@/types";
+import { Check, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { isAnswerMap } from "@/utils/answers";
+
+interface MatchingBoardProps {
+  question: Question;
+  pairs: AnswerMap;
+  onChange: (pairs: AnswerMap) => void;
+  showResults: boolean;
+  // Locks the answer without marking it, e.g. while a retry is offered
+  disabled?: boolean;
+}
+
+// Tap an item, then tap the answer that goes with it. Each answer can only be used once.
+const MatchingBoard = ({ question, pairs, onChange, showResults, disabled }: MatchingBoardProps) => {
+  const locked = showResults || !!disabled;
+  const [activeItemId, setActiveItemId] = useState<string | null>(null);
+  const items = question.items || [];
+  const options = question.options || [];
+  const expected = isAnswerMap(question.correctAnswer) ? question.correctAnswer : {};
+
+  const getPairedItemId = (optionId: string) =>
+    Object.keys(pairs).find(itemId => pairs[itemId] === optionId);
+
+  const getItemNumber = (itemId: string) =>
+    items.findIndex(item => item.id === itemId) + 1;
+
+  const handleItemClick = (itemId: string) => {
+    if (locked) return;
+
+    // Tapping a paired item unpairs it so it can be matched again
+    if (pairs[itemId]) {
+      const { [itemId]: _removed, ...rest } = pairs;
+      onChange(rest);
+      setActiveItemId(itemId);
+      return;
+    }
+
+    setActiveItemId(activeItemId === itemId ? null : itemId);
+  };
+
+  const handleOptionClick = (optionId: string) => {
+    if (locked || !activeItemId || getPairedItemId(optionId)) return;
+
+    const nextPairs = { ...pairs, [activeItemId]: optionId };
+    onChange(nextPairs);
+
+    // Move straight on to the next item that still needs a match
+    const nextItem = items.find(item => !nextPairs[item.id]);
+    setActiveItemId(nextItem ? nextItem.id : null);
+  };
+
+  const getOptionText = (optionId: string) =>
+    options.find(option => option.id === optionId)?.text || optionId;
+
+  return (
+    <div className="mt-4 space-y-6">
+      <div className="space-y-3">
+        {items.map((item, index) => {
+          const pairedOptionId = pairs[item.id];
+          const isRight = pairedOptionId && pairedOptionId === expected[item.id];
+
+          return (
+            <button
+              key={item.id}
+              type="button"
+              onClick={() => handleItemClick(item.id)}
+              disabled={locked}
+              className={cn(
+                "w-full text-left rounded-xl p-3 border transition-colors",
+                activeItemId === item.id
+                  ? "border-quiz-primary bg-purple-50 ring-2 ring-quiz-primary/30"
+                  : "border-gray-200",
+                showResults && isRight ? "border-green-500 bg-green-50" : "",
+                showResults && !isRight ? "border-red-500 bg-red-50" : ""
+              )}
+            >
+              <div className="flex items-start gap-3">
+                <span className="flex-shrink-0 h-7 w-7 rounded-full bg-quiz-primary text-white text-sm font-medium flex items-center justify-center">
+                  {index + 1}
+                </span>
+                <div className="flex-grow">
+                  <p className="font-medium">{item.text}</p>
+                  <p className={cn(
+                    "text-sm mt-1",
+                    pairedOptionId ? "text-quiz-dark" : "text-gray-400"
+                  )}>
+                    {pairedOptionId
+                      ? `→ ${getOptionText(pairedOptionId)}`
+                      : activeItemId === item.id
+                      ? "Now tap its match below"
+                      : "Tap to match"}
+                  </p>
+                  {showResults && !isRight && expected[item.id] && (
+                    <p className="text-sm mt-1 text-green-700">
+                      Correct: {getOptionText(expected[item.id])}
+                    </p>
+                  )}
+                </div>
+                {showResults && (isRight ? (
+                  <Check className="h-5 w-5 text-green-500 flex-shrink-0" />
+                ) : (
+                  <X className="h-5 w-5 text-red-500 flex-shrink-0" />
+                ))}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      <div>
+        <p className="text-sm text-gray-500 mb-2">Answers</p>
+        <div className="flex flex-wrap gap-2">
+          {options.map((option) => {
+            const pairedItemId = getPairedItemId(option.id);
+            return (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => handleOptionClick(option.id)}
+                disabled={locked || !!pairedItemId}
+                className={cn(
+                  "rounded-xl px-3 py-2 border text-left text-sm transition-colors",
+                  pairedItemId
+                    ? "border-gray-200 bg-gray-100 text-gray-400"
+                    : activeItemId
+                    ? "border-quiz-primary hover:bg-purple-50"
+                    : "border-gray-200"
+                )}
+              >
+                {pairedItemId && (
+                  <span className="font-medium mr-1">{getItemNumber(pairedItemId)}.</span>
+                )}
+                {option.text}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MatchingBoard;
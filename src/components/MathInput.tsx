@@ -0,0 +1,133 @@
+import React, { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MathNode, parseExpression } from "@/utils/math";
+
+interface MathInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+// Snippets for the keys that are awkward on a phone keyboard. The cursor lands at
+// `caret` characters into the inserted text.
+const HELPER_KEYS = [
+  { label: "x", insert: "x", caret: 1 },
+  { label: "( )", insert: "()", caret: 1 },
+  { label: "a⁄b", insert: "()/()", caret: 1 },
+  { label: "x²", insert: "^2", caret: 2 },
+  { label: "xⁿ", insert: "^", caret: 1 },
+  { label: "√", insert: "sqrt()", caret: 5 },
+  { label: "π", insert: "π", caret: 1 }
+];
+
+const PRECEDENCE: Record<string, number> = { "+": 1, "-": 1, "*": 2, "/": 2, "^": 3 };
+
+const precedenceOf = (node: MathNode): number =>
+  node.kind === "binary" ? PRECEDENCE[node.operator] : node.kind === "negate" ? 2 : 4;
+
+// Renders the parsed expression the way it would be written by hand, so students
+// can check that "1/2x" was read the way they meant it
+const renderNode = (node: MathNode, minPrecedence = 0): React.ReactNode => {
+  const wrap = (content: React.ReactNode) =>
+    precedenceOf(node) < minPrecedence ? <>({content})</> : content;
+
+  switch (node.kind) {
+    case "number":
+      return String(node.value);
+    case "variable":
+      return <i>{node.name}</i>;
+    case "constant":
+      return node.name === "pi" ? "π" : <i>e</i>;
+    case "negate":
+      return wrap(<>−{renderNode(node.operand, 3)}</>);
+    case "call":
+      return node.name === "sqrt"
+        ? <>√<span className="border-t border-current">{renderNode(node.argument)}</span></>
+        : <>{node.name}({renderNode(node.argument)})</>;
+    case "binary":
+      if (node.operator === "/") {
+        return (
+          <span className="inline-flex flex-col items-center align-middle mx-0.5 text-sm leading-tight">
+            <span>{renderNode(node.left)}</span>
+            <span className="border-t border-current w-full text-center">{renderNode(node.right)}</span>
+          </span>
+        );
+      }
+      if (node.operator === "^") {
+        return wrap(<>{renderNode(node.left, 4)}<sup>{renderNode(node.right)}</sup></>);
+      }
+      return wrap(
+        <>
+          {renderNode(node.left, PRECEDENCE[node.operator])}
+          {node.operator === "*" ? "·" : ` ${node.operator === "-" ? "−" : "+"} `}
+          {renderNode(node.right, PRECEDENCE[node.operator] + 1)}
+        </>
+      );
+  }
+};
+
+const MathInput = ({ value, onChange, disabled }: MathInputProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const parsed = value.trim() ? parseExpression(value) : null;
+
+  const insert = (text: string, caret: number) => {
+    const input = inputRef.current;
+    const start = input?.selectionStart ?? value.length;
+    const end = input?.selectionEnd ?? value.length;
+    onChange(value.slice(0, start) + text + value.slice(end));
+
+    // Wait for React to render the new value before moving the cursor
+    requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(start + caret, start + caret);
+    });
+  };
+
+  return (
+    <div className="mt-6 space-y-3">
+      <Input
+        ref={inputRef}
+        type="text"
+        placeholder="e.g. 2(x + 3)"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="input-field text-lg font-mono"
+        disabled={disabled}
+        autoCapitalize="off"
+        autoCorrect="off"
+        spellCheck={false}
+        autoFocus
+      />
+
+      {!disabled && (
+        <div className="flex flex-wrap gap-2">
+          {HELPER_KEYS.map(key => (
+            <Button
+              key={key.label}
+              type="button"
+              variant="outline"
+              size="sm"
+              className="rounded-lg min-w-[2.75rem]"
+              onClick={() => insert(key.insert, key.caret)}
+            >
+              {key.label}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {value.trim() && (
+        <p className="text-sm text-gray-500">
+          {parsed ? (
+            <>Reads as: <span className="text-lg text-gray-800 ml-1">{renderNode(parsed)}</span></>
+          ) : (
+            "Keep typing. That isn't a complete expression yet."
+          )}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default MathInput;
@@ -0,0 +1,29 @@
+import React from "react";
+import { Media } from "@/types";
+import { cn } from "@/lib/utils";
+
+interface MediaGalleryProps {
+  media?: Media[];
+  className?: string;
+}
+
+// Figures cropped from the worksheet; ones that couldn't be cropped are left out
+const MediaGallery = ({ media, className }: MediaGalleryProps) => {
+  const images = (media || []).filter(item => item.src);
+  if (images.length === 0) return null;
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {images.map(item => (
+        <img
+          key={item.id}
+          src={item.src}
+          alt={item.description || "Figure from the worksheet"}
+          className="w-full max-h-72 object-contain rounded-xl border bg-white"
+        />
+      ))}
+    </div>
+  );
+};
+
+export default MediaGallery;
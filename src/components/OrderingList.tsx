@@ -0,0 +1,84 @@
+import React from "react";
+import { Question } from "@/types";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface OrderingListProps {
+  question: Question;
+  order: string[];
+  onChange: (order: string[]) => void;
+  showResults: boolean;
+  // Locks the answer without marking it, e.g. while a retry is offered
+  disabled?: boolean;
+}
+
+const OrderingList = ({ question, order, onChange, showResults, disabled }: OrderingListProps) => {
+  const options = question.options || [];
+  const expected = Array.isArray(question.correctAnswer) ? question.correctAnswer : [];
+
+  const getOptionText = (optionId: string) =>
+    options.find(option => option.id === optionId)?.text || optionId;
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= order.length) return;
+
+    const next = [...order];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="mt-4 space-y-3">
+      <p className="text-sm text-gray-500">Use the arrows to put these in order</p>
+      {order.map((optionId, index) => {
+        const isInPlace = expected[index] === optionId;
+        return (
+          <div
+            key={optionId}
+            className={cn(
+              "flex items-center gap-3 rounded-xl p-3 border bg-white",
+              showResults && isInPlace ? "border-green-500 bg-green-50" : "",
+              showResults && !isInPlace ? "border-red-500 bg-red-50" : "",
+              !showResults ? "border-gray-200" : ""
+            )}
+          >
+            <span className="flex-shrink-0 h-7 w-7 rounded-full bg-quiz-primary text-white text-sm font-medium flex items-center justify-center">
+              {index + 1}
+            </span>
+            <span className="flex-grow">{getOptionText(optionId)}</span>
+            {!showResults && !disabled && (
+              <div className="flex flex-col">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2"
+                  disabled={index === 0}
+                  onClick={() => move(index, -1)}
+                  aria-label="Move up"
+                >
+                  <ChevronUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2"
+                  disabled={index === order.length - 1}
+                  onClick={() => move(index, 1)}
+                  aria-label="Move down"
+                >
+                  <ChevronDown className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default OrderingList;
@@ -1,83 +1,245 @@
 
 import React, { useState } from "react";
-import { Question as QuestionType } from "@/types";
+import {
+  Answer,
+  AnswerMap,
+  AttemptPolicy,
+  GradingPolicy,
+  Media,
+  Question as QuestionType
+} from "@/types";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
-import { Check, X } from "lucide-react";
+import MatchingBoard from "@/components/MatchingBoard";
+import CategorizeBoard from "@/components/CategorizeBoard";
+import LabelDiagram from "@/components/LabelDiagram";
+import OrderingList from "@/components/OrderingList";
+import BlankSentence from "@/components/BlankSentence";
+import MathInput from "@/components/MathInput";
+import MediaGallery from "@/components/MediaGallery";
+import { Check, Lightbulb, X } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { updateQuestionAnswer } from "@/utils/storage";
+import {
+  formatAnswer,
+  getInitialOrder,
+  isMatchingGroup,
+  TRUE_FALSE_OPTIONS
+} from "@/utils/answers";
+import { applyRetryPenalty, canRetry, getMaxAttempts } from "@/utils/attempts";
+import { getBlankCount, isMultiBlank } from "@/utils/blanks";
+import {
+  applyHintPenalty,
+  DEFAULT_HINT_PENALTY,
+  gradeAnswer,
+  gradeBlanks,
+  gradeLabels,
+  GradeResult
+} from "@/utils/grading";
+import { getExtraMedia, getHotspots } from "@/utils/hotspots";
+import { gradeTextResponse } from "@/services/gradingService";
 
 interface QuestionProps {
   question: QuestionType;
+  gradingPolicy?: GradingPolicy;
+  hintPenalty?: number;
+  attemptPolicy?: AttemptPolicy;
+  // Figures from the question's section, shown above its own
+  sectionMedia?: Media[];
   onNext: () => void;
 }
 
-const Question = ({ question, onNext }: QuestionProps) => {
+const Question = ({
+  question,
+  gradingPolicy,
+  hintPenalty,
+  attemptPolicy,
+  sectionMedia,
+  onNext
+}: QuestionProps) => {
   const [selectedOption, setSelectedOption] = useState<string>("");
   const [textAnswer, setTextAnswer] = useState<string>("");
+  const [blankAnswers, setBlankAnswers] = useState<string[]>([]);
   const [hasSubmitted, setHasSubmitted] = useState(false);
-  const [isCorrect, setIsCorrect] = useState(false);
+  const [isGrading, setIsGrading] = useState(false);
+  const [hintsShown, setHintsShown] = useState(0);
+  const [attempt, setAttempt] = useState(1);
+  const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
+  const [matches, setMatches] = useState<AnswerMap>({});
+  const [order, setOrder] = useState<string[] | null>(null);
+  const currentOrder = order ?? getInitialOrder(question);
+  const [grade, setGrade] = useState<GradeResult>({ isCorrect: false, score: 0 });
+  const isCorrect = grade.isCorrect;
+  const isPartial = !isCorrect && grade.score > 0;
+  const maxAttempts = getMaxAttempts(attemptPolicy);
+  const attemptsLeft = maxAttempts - attempt;
+  const retryAvailable = hasSubmitted && canRetry(grade, attempt, attemptPolicy);
+  // The answer stays hidden while the student can still have another go
+  const showAnswer = hasSubmitted && !retryAvailable;
+
+  const toggleOption = (optionId: string, checked: boolean) => {
+    setSelectedOptions(current =>
+      checked
+        ? [...current, optionId]
+        : current.filter(id => id !== optionId)
+    );
+  };
+
+  const hasAnswer = () => {
+    if (isMultiBlank(question)) {
+      return Array.from({ length: getBlankCount(question) })
+        .every((_, index) => (blankAnswers[index] || "").trim() !== "");
+    }
+
+    if (isMatchingGroup(question)) {
+      const needed = Math.min(question.items.length, question.options?.length || 0);
+      return Object.keys(matches).length >= needed;
+    }
+
+    if (question.type === "categorize") {
+      return (question.items || []).every(item => matches[item.id]);
+    }
+
+    if (question.type === "label-diagram") {
+      return getHotspots(question).every(hotspot => (matches[hotspot.id] || "").trim() !== "");
+    }
 
-  const handleSubmit = () => {
-    let answer: string | string[] = "";
-    let correct = false;
-    
     switch (question.type) {
-      case "multiple-choice":
-      case "matching":
-        answer = selectedOption;
-        correct = selectedOption === question.correctAnswer;
-        break;
+      case "multi-select":
+        return selectedOptions.length > 0;
+      case "ordering":
+        return currentOrder.length > 0;
       case "text":
       case "fill-blank":
-        answer = textAnswer.trim();
-        // Check case-insensitive but allow partial credit for close answers
-        const userAnswerLower = answer.toLowerCase();
-        correct = 
-          Array.isArray(question.correctAnswer) 
-            ? question.correctAnswer.some(a => 
-                userAnswerLower === a.toLowerCase()
-              )
-            : userAnswerLower === question.correctAnswer.toLowerCase();
-        break;
+      case "numeric":
+      case "math":
+        return textAnswer.trim() !== "";
+      default:
+        return selectedOption !== "";
     }
+  };
+
+  const handleSubmit = async () => {
+    let answer: Answer = "";
     
-    setIsCorrect(correct);
-    updateQuestionAnswer(question.id, answer, correct);
+    if (isMatchingGroup(question) || question.type === "categorize") {
+      answer = matches;
+    } else if (question.type === "label-diagram") {
+      answer = Object.fromEntries(
+        getHotspots(question).map(hotspot => [hotspot.id, (matches[hotspot.id] || "").trim()])
+      );
+    } else if (isMultiBlank(question)) {
+      answer = Array.from(
+        { length: getBlankCount(question) },
+        (_, index) => (blankAnswers[index] || "").trim()
+      );
+    } else {
+      switch (question.type) {
+        case "multiple-choice":
+        case "matching":
+        case "true-false":
+          answer = selectedOption;
+          break;
+        case "multi-select":
+          // Keep the worksheet's option order rather than the click order
+          answer = (question.options || [])
+            .map(option => option.id)
+            .filter(id => selectedOptions.includes(id));
+          break;
+        case "ordering":
+          answer = currentOrder;
+          break;
+        case "text":
+        case "fill-blank":
+        case "numeric":
+        case "math":
+          answer = textAnswer.trim();
+          break;
+      }
+    }
+    
+    let result: GradeResult;
+    if (question.type === "text" && typeof answer === "string") {
+      setIsGrading(true);
+      result = await gradeTextResponse(question, answer, gradingPolicy);
+      setIsGrading(false);
+    } else {
+      result = gradeAnswer(question, answer, gradingPolicy);
+    }
+    result = applyRetryPenalty(
+      applyHintPenalty(result, hintsShown, hintPenalty),
+      attempt,
+      attemptPolicy
+    );
+    setGrade(result);
+    updateQuestionAnswer(question.id, answer, result, hintsShown);
     setHasSubmitted(true);
   };
   
+  // Keeps the previous answer in place so it can be corrected
+  const handleRetry = () => {
+    setAttempt(attempt + 1);
+    setHasSubmitted(false);
+  };
+  
   const handleNext = () => {
     onNext();
     setHasSubmitted(false);
+    setAttempt(1);
     setSelectedOption("");
+    setSelectedOptions([]);
+    setMatches({});
+    setOrder(null);
     setTextAnswer("");
+    setBlankAnswers([]);
+    setHintsShown(0);
   };
 
   const renderFeedback = () => {
     return (
       <div className={cn(
         "p-4 rounded-xl mt-4 flex items-center gap-3",
-        isCorrect ? "bg-green-50 text-green-700" : "bg-red-50 text-red-700"
+        isCorrect
+          ? "bg-green-50 text-green-700"
+          : isPartial
+          ? "bg-yellow-50 text-yellow-700"
+          : "bg-red-50 text-red-700"
       )}>
         {isCorrect ? (
           <Check className="h-5 w-5 text-green-500 flex-shrink-0" />
         ) : (
-          <X className="h-5 w-5 text-red-500 flex-shrink-0" />
+          <X className={cn(
+            "h-5 w-5 flex-shrink-0",
+            isPartial ? "text-yellow-500" : "text-red-500"
+          )} />
         )}
         <div>
           <p className="font-medium">
-            {isCorrect ? "Correct!" : "Not quite right"}
+            {isCorrect
+              ? "Correct!"
+              : isPartial
+              ? `Partially correct (${Math.round(grade.score * 100)}%)`
+              : "Not quite right"}
           </p>
-          {!isCorrect && (
+          {grade.feedback && (
+            <p className="text-sm mt-1">{grade.feedback}</p>
+          )}
+          {retryAvailable && (
+            <p className="text-sm mt-1">
+              {Number.isFinite(attemptsLeft)
+                ? `Try again: ${attemptsLeft} ${attemptsLeft === 1 ? "attempt" : "attempts"} left.`
+                : "Try again!"}
+            </p>
+          )}
+          {showAnswer && !isCorrect && !isMatchingGroup(question) &&
+            !["categorize", "label-diagram"].includes(question.type) && !isMultiBlank(question) && (
             <p className="text-sm mt-1">
               The correct answer is:{" "}
               <span className="font-medium">
-                {Array.isArray(question.correctAnswer)
-                  ? question.correctAnswer.join(", ")
-                  : question.correctAnswer}
+                {formatAnswer(question, question.correctAnswer)}
               </span>
             </p>
           )}
@@ -86,8 +248,85 @@ const Question = ({ question, onNext }: QuestionProps) => {
     );
   };
 
+  const renderHints = () => {
+    const hints = question.hints || [];
+    if (hints.length === 0) return null;
+
+    const penalty = hintPenalty ?? DEFAULT_HINT_PENALTY;
+
+    return (
+      <div className="mt-4 space-y-2">
+        {hints.slice(0, hintsShown).map((hint, index) => (
+          <div key={index} className="p-3 rounded-xl bg-blue-50 text-blue-800 text-sm flex gap-2">
+            <Lightbulb className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <p>{hint}</p>
+          </div>
+        ))}
+        {!hasSubmitted && hintsShown < hints.length && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setHintsShown(hintsShown + 1)}
+            className="text-blue-700 hover:text-blue-800 rounded-xl"
+          >
+            <Lightbulb className="h-4 w-4 mr-1" />
+            {hintsShown === 0 ? "Show a hint" : "Show another hint"}
+            {penalty > 0 && ` (-${Math.round(penalty * 100)}%)`}
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  const renderExplanation = () => (
+    <div className="p-4 rounded-xl mt-3 bg-gray-100 text-gray-700 text-sm">
+      <p className="font-medium mb-1">Explanation</p>
+      <p className="whitespace-pre-line">{question.explanation}</p>
+    </div>
+  );
+
   const renderQuestionContent = () => {
+    // Multi-blank sentences render their inputs inline in the question text
+    if (isMultiBlank(question)) {
+      return null;
+    }
+
+    if (isMatchingGroup(question)) {
+      return (
+        <MatchingBoard
+          question={question}
+          pairs={matches}
+          onChange={setMatches}
+          showResults={showAnswer}
+          disabled={hasSubmitted}
+        />
+      );
+    }
+
     switch (question.type) {
+      case "label-diagram":
+        return (
+          <LabelDiagram
+            question={question}
+            labels={matches}
+            onChange={setMatches}
+            grades={showAnswer ? gradeLabels(matches, question, gradingPolicy) : undefined}
+            disabled={hasSubmitted}
+            className="mt-4"
+          />
+        );
+
+      case "categorize":
+        return (
+          <CategorizeBoard
+            question={question}
+            assignments={matches}
+            onChange={setMatches}
+            showResults={showAnswer}
+            disabled={hasSubmitted}
+          />
+        );
+
       case "multiple-choice":
       case "matching":
         return (
@@ -105,10 +344,10 @@ const Question = ({ question, onNext }: QuestionProps) => {
                   selectedOption === option.id 
                     ? "border-quiz-primary bg-purple-50" 
                     : "border-gray-200",
-                  hasSubmitted && option.id === question.correctAnswer
+                  showAnswer && option.id === question.correctAnswer
                     ? "border-green-500 bg-green-50"
                     : "",
-                  hasSubmitted && 
+                  showAnswer && 
                     selectedOption === option.id && 
                     option.id !== question.correctAnswer
                     ? "border-red-500 bg-red-50"
@@ -130,7 +369,122 @@ const Question = ({ question, onNext }: QuestionProps) => {
             ))}
           </RadioGroup>
         );
+
+      case "multi-select":
+        return (
+          <div className="space-y-3 mt-4">
+            <p className="text-sm text-gray-500">Select all that apply</p>
+            {question.options?.map((option) => {
+              const isChecked = selectedOptions.includes(option.id);
+              const isAnswer = Array.isArray(question.correctAnswer)
+                ? question.correctAnswer.includes(option.id)
+                : option.id === question.correctAnswer;
+              return (
+                <div
+                  key={option.id}
+                  className={cn(
+                    "flex items-center space-x-2 rounded-xl p-3 border",
+                    isChecked
+                      ? "border-quiz-primary bg-purple-50"
+                      : "border-gray-200",
+                    showAnswer && isAnswer
+                      ? "border-green-500 bg-green-50"
+                      : "",
+                    showAnswer && isChecked && !isAnswer
+                      ? "border-red-500 bg-red-50"
+                      : ""
+                  )}
+                >
+                  <Checkbox
+                    id={option.id}
+                    checked={isChecked}
+                    disabled={hasSubmitted}
+                    onCheckedChange={(checked) => toggleOption(option.id, checked === true)}
+                    className="border-quiz-primary data-[state=checked]:bg-quiz-primary"
+                  />
+                  <Label
+                    htmlFor={option.id}
+                    className="flex-grow cursor-pointer py-2"
+                  >
+                    {option.text}
+                  </Label>
+                </div>
+              );
+            })}
+          </div>
+        );
+
+      case "ordering":
+        return (
+          <OrderingList
+            question={question}
+            order={currentOrder}
+            onChange={setOrder}
+            showResults={showAnswer}
+            disabled={hasSubmitted}
+          />
+        );
+
+      case "true-false":
+        return (
+          <div className="grid grid-cols-2 gap-3 mt-4">
+            {TRUE_FALSE_OPTIONS.map((option) => {
+              const isAnswer = option.id === String(question.correctAnswer).toLowerCase();
+              return (
+                <Button
+                  key={option.id}
+                  type="button"
+                  variant="outline"
+                  disabled={hasSubmitted}
+                  onClick={() => setSelectedOption(option.id)}
+                  className={cn(
+                    "h-16 rounded-xl text-lg border-2 disabled:opacity-100",
+                    selectedOption === option.id
+                      ? "border-quiz-primary bg-purple-50"
+                      : "border-gray-200",
+                    showAnswer && isAnswer
+                      ? "border-green-500 bg-green-50"
+                      : "",
+                    showAnswer && selectedOption === option.id && !isAnswer
+                      ? "border-red-500 bg-red-50"
+                      : ""
+                  )}
+                >
+                  {option.text}
+                </Button>
+              );
+            })}
+          </div>
+        );
         
+      case "numeric":
+        return (
+          <div className="mt-6 flex items-center gap-3">
+            <Input
+              type="text"
+              inputMode="decimal"
+              placeholder="Enter a number..."
+              value={textAnswer}
+              onChange={(e) => setTextAnswer(e.target.value)}
+              className="input-field text-lg"
+              disabled={hasSubmitted}
+              autoFocus
+            />
+            {question.numeric?.unit && (
+              <span className="text-lg text-gray-600">{question.numeric.unit}</span>
+            )}
+          </div>
+        );
+
+      case "math":
+        return (
+          <MathInput
+            value={textAnswer}
+            onChange={setTextAnswer}
+            disabled={hasSubmitted}
+          />
+        );
+
       case "text":
       case "fill-blank":
         return (
@@ -141,7 +495,7 @@ const Question = ({ question, onNext }: QuestionProps) => {
               value={textAnswer}
               onChange={(e) => setTextAnswer(e.target.value)}
               className="input-field text-lg"
-              disabled={hasSubmitted}
+              disabled={hasSubmitted || isGrading}
               autoFocus
             />
           </div>
@@ -154,24 +508,50 @@ const Question = ({ question, onNext }: QuestionProps) => {
 
   return (
     <div className="question-container">
-      <h3 className="text-xl font-medium mb-4">{question.text}</h3>
+      <MediaGallery media={[...(sectionMedia || []), ...getExtraMedia(question)]} className="mb-4" />
+
+      {isMultiBlank(question) ? (
+        <BlankSentence
+          question={question}
+          answers={blankAnswers}
+          onChange={setBlankAnswers}
+          grades={showAnswer ? gradeBlanks(blankAnswers, question, gradingPolicy) : undefined}
+          disabled={hasSubmitted}
+          className="text-xl font-medium mb-4"
+        />
+      ) : (
+        <h3 className="text-xl font-medium mb-4">{question.text}</h3>
+      )}
       
       {renderQuestionContent()}
       
+      {renderHints()}
+
       {hasSubmitted && renderFeedback()}
+      {showAnswer && question.explanation && renderExplanation()}
       
-      <div className="mt-6 flex justify-end">
+      <div className="mt-6 flex items-center justify-end gap-3">
+        {maxAttempts > 1 && (
+          <span className="mr-auto text-sm text-gray-500">
+            Attempt {attempt}{Number.isFinite(maxAttempts) && ` of ${maxAttempts}`}
+          </span>
+        )}
+        {retryAvailable && (
+          <Button
+            variant="outline"
+            onClick={handleRetry}
+            className="rounded-xl px-6"
+          >
+            Try Again
+          </Button>
+        )}
         {!hasSubmitted ? (
           <Button 
             onClick={handleSubmit}
-            disabled={
-              (question.type === "multiple-choice" || question.type === "matching") 
-                ? !selectedOption 
-                : !textAnswer.trim()
-            }
+            disabled={!hasAnswer() || isGrading}
             className="bg-quiz-primary hover:bg-quiz-primary/90 rounded-xl px-8"
           >
-            Submit
+            {isGrading ? "Grading..." : "Submit"}
           </Button>
         ) : (
           <Button 
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from "react";
+import { ArrowDown, ArrowUp, FileText, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { PreparedFile } from "@/services/imageService";
+
+interface UploadPageListProps {
+  files: PreparedFile[];
+  onChange: (files: PreparedFile[]) => void;
+}
+
+interface Previews {
+  before: string;
+  after: string;
+}
+
+const formatSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const previewUrl = (file: File): string => (file.type.startsWith("image/") ? URL.createObjectURL(file) : "");
+
+// The chosen photos in the order they'll be read, with controls to reorder or remove them.
+// Tapping a thumbnail compares the photo as taken with what will be uploaded.
+const UploadPageList = ({ files, onChange }: UploadPageListProps) => {
+  const [previews, setPreviews] = useState<Previews[]>([]);
+  const [comparing, setComparing] = useState<PreparedFile | null>(null);
+
+  useEffect(() => {
+    const urls = files.map(item => ({
+      before: item.changes.length ? previewUrl(item.original) : "",
+      after: previewUrl(item.file)
+    }));
+    setPreviews(urls);
+    return () => urls.forEach(({ before, after }) => [before, after].forEach(url => url && URL.revokeObjectURL(url)));
+  }, [files]);
+
+  const move = (index: number, offset: number) => {
+    const next = [...files];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const remove = (index: number) => onChange(files.filter((_, i) => i !== index));
+
+  return (
+    <ol className="space-y-2">
+      {files.map((item, index) => (
+        <li
+          key={`${item.original.name}-${item.original.lastModified}-${index}`}
+          className="rounded-xl border bg-white p-2"
+        >
+          <div className="flex items-center gap-3">
+            {previews[index]?.after ? (
+              <button
+                type="button"
+                className="flex-shrink-0 rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-quiz-primary"
+                aria-label={`Compare page ${index + 1} before and after preparing it`}
+                aria-expanded={comparing === item}
+                disabled={!item.changes.length}
+                onClick={() => setComparing(comparing === item ? null : item)}
+              >
+                <img
+                  src={previews[index].after}
+                  alt={`Page ${index + 1}`}
+                  className="h-12 w-12 rounded-lg object-cover"
+                />
+              </button>
+            ) : (
+              <div className="h-12 w-12 flex-shrink-0 rounded-lg bg-gray-100 flex items-center justify-center">
+                <FileText className="h-6 w-6 text-gray-400" />
+              </div>
+            )}
+
+            <div className="min-w-0 flex-grow">
+              <p className="text-sm font-medium">Page {index + 1}</p>
+              <p className="text-xs text-gray-500 truncate">
+                {item.original.name}
+                {item.file !== item.original && ` · ${formatSize(item.original.size)} → ${formatSize(item.file.size)}`}
+              </p>
+            </div>
+
+            <div className="flex flex-shrink-0">
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label={`Move page ${index + 1} up`}
+                disabled={index === 0}
+                onClick={() => move(index, -1)}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label={`Move page ${index + 1} down`}
+                disabled={index === files.length - 1}
+                onClick={() => move(index, 1)}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label={`Remove page ${index + 1}`}
+                onClick={() => remove(index)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {comparing === item && previews[index]?.before && (
+            <div className="mt-3 space-y-2">
+              <div className="grid grid-cols-2 gap-2">
+                {[
+                  { label: "As taken", src: previews[index].before, size: item.original.size },
+                  { label: "Uploaded", src: previews[index].after, size: item.file.size }
+                ].map(preview => (
+                  <figure key={preview.label}>
+                    <img
+                      src={preview.src}
+                      alt={`Page ${index + 1}, ${preview.label.toLowerCase()}`}
+                      className="h-40 w-full rounded-lg bg-gray-100 object-contain"
+                    />
+                    <figcaption className="mt-1 text-xs text-gray-500 text-center">
+                      {preview.label} · {formatSize(preview.size)}
+                    </figcaption>
+                  </figure>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">{item.changes.join(" · ")}</p>
+            </div>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default UploadPageList;
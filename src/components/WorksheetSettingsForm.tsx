@@ -0,0 +1,163 @@
+import React from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { AttemptMode, AttemptPolicy, GradingPolicy, WorksheetSettings } from "@/types";
+import { DEFAULT_MAX_ATTEMPTS } from "@/utils/attempts";
+import { DEFAULT_HINT_PENALTY } from "@/utils/grading";
+import { resolveGradingPolicy } from "@/utils/textMatching";
+
+interface WorksheetSettingsFormProps {
+  settings: WorksheetSettings;
+  onChange: (settings: WorksheetSettings) => void;
+}
+
+const SPELLING_OPTIONS = [
+  { value: "0", label: "Exact spelling" },
+  { value: "1", label: "Allow one typo" },
+  { value: "2", label: "Allow two typos" }
+];
+
+const TYPO_CREDIT_OPTIONS = [
+  { value: "1", label: "Full credit" },
+  { value: "0.5", label: "Half credit" }
+];
+
+const HINT_PENALTY_OPTIONS = [
+  { value: "0", label: "Nothing" },
+  { value: "0.1", label: "10% of the credit" },
+  { value: "0.25", label: "25% of the credit" },
+  { value: "0.5", label: "50% of the credit" }
+];
+
+const ATTEMPT_MODE_OPTIONS: { value: AttemptMode; label: string }[] = [
+  { value: "single", label: "One try" },
+  { value: "limited", label: "A few tries, each worth less" },
+  { value: "unlimited", label: "Practice until right" }
+];
+
+const MAX_ATTEMPTS_OPTIONS = ["2", "3", "5"];
+
+// How the teacher wants the uploaded worksheet graded, what hints cost and how many
+// tries students get; saved with the worksheet, so every question reads it from there
+const WorksheetSettingsForm = ({ settings, onChange }: WorksheetSettingsFormProps) => {
+  const grading = resolveGradingPolicy(settings.grading);
+  const setGrading = (change: GradingPolicy) =>
+    onChange({ ...settings, grading: { ...settings.grading, ...change } });
+  const attempts: AttemptPolicy = settings.attempts ?? { mode: "single" };
+  const setAttempts = (change: Partial<AttemptPolicy>) =>
+    onChange({ ...settings, attempts: { ...attempts, ...change } });
+
+  return (
+    <div className="space-y-4 rounded-2xl border border-gray-200 p-4 text-left">
+      <div className="flex items-start gap-3">
+        <Checkbox
+          id="grading-accents"
+          checked={grading.ignoreAccents}
+          onCheckedChange={(checked) => setGrading({ ignoreAccents: checked === true })}
+          className="mt-0.5 border-quiz-primary data-[state=checked]:bg-quiz-primary"
+        />
+        <Label htmlFor="grading-accents" className="text-sm text-gray-600 font-normal leading-snug cursor-pointer">
+          Accept written answers with missing accents ("subi" for "subí")
+        </Label>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="grading-spelling" className="text-xs text-gray-500">Spelling</Label>
+          <Select
+            value={String(grading.maxEditDistance)}
+            onValueChange={(value) => setGrading({ maxEditDistance: Number(value) })}
+          >
+            <SelectTrigger id="grading-spelling">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SPELLING_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="grading-typo-credit" className="text-xs text-gray-500">Answers with typos earn</Label>
+          <Select
+            value={String(grading.typoCredit)}
+            onValueChange={(value) => setGrading({ typoCredit: Number(value) })}
+            disabled={grading.maxEditDistance === 0}
+          >
+            <SelectTrigger id="grading-typo-credit">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TYPO_CREDIT_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="hint-penalty" className="text-xs text-gray-500">Each hint revealed costs</Label>
+        <Select
+          value={String(settings.hintPenalty ?? DEFAULT_HINT_PENALTY)}
+          onValueChange={(value) => onChange({ ...settings, hintPenalty: Number(value) })}
+        >
+          <SelectTrigger id="hint-penalty">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {HINT_PENALTY_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="attempt-mode" className="text-xs text-gray-500">Tries per question</Label>
+          <Select value={attempts.mode} onValueChange={(value) => setAttempts({ mode: value as AttemptMode })}>
+            <SelectTrigger id="attempt-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ATTEMPT_MODE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {attempts.mode === "limited" && (
+          <div className="space-y-1">
+            <Label htmlFor="max-attempts" className="text-xs text-gray-500">Up to</Label>
+            <Select
+              value={String(attempts.maxAttempts ?? DEFAULT_MAX_ATTEMPTS)}
+              onValueChange={(value) => setAttempts({ maxAttempts: Number(value) })}
+            >
+              <SelectTrigger id="max-attempts">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MAX_ATTEMPTS_OPTIONS.map(value => (
+                  <SelectItem key={value} value={value}>{value} tries</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WorksheetSettingsForm;
@@ -1,83 +1,112 @@
 
-import React, { useState } from "react";
+import React, { useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
-import { Upload, BookOpen } from "lucide-react";
+import { Upload, BookOpen, Camera, SlidersHorizontal } from "lucide-react";
 import { toast } from "sonner";
 import { useNavigate } from "react-router-dom";
 import { saveWorksheet, clearStorage } from "@/utils/storage";
-import { processWorksheetImage } from "@/services/openAIService";
+import { processWorksheetFiles } from "@/services/openAIService";
+import { prepareFile, PreparedFile } from "@/services/imageService";
 import LoadingState from "@/components/LoadingState";
-import { Worksheet } from "@/types";
+import UploadPageList from "@/components/UploadPageList";
+import WorksheetSettingsForm from "@/components/WorksheetSettingsForm";
+import { ProcessingStatus, Worksheet, WorksheetSettings } from "@/types";
 
-// Processing stages for the loading animation
-const processingStages = [
-  "Analyzing worksheet...",
-  "Extracting questions...",
-  "Converting to interactive format...",
-  "Finalizing worksheet..."
-];
+// Photos are read one after another, so keep a multi-page upload to a reasonable wait
+const MAX_PHOTOS = 6;
 
 const WorksheetUpload = () => {
   const [isUploading, setIsUploading] = useState(false);
-  const [file, setFile] = useState<File | null>(null);
-  const [processingStage, setProcessingStage] = useState(0);
-  const [processingProgress, setProcessingProgress] = useState(0);
+  // Photos in page order, or a single PDF, each with what will actually be uploaded
+  const [files, setFiles] = useState<PreparedFile[]>([]);
+  // Set while new photos are turned upright, cropped and compressed
+  const [isPreparing, setIsPreparing] = useState(false);
+  // Stages reported by the extraction function while the upload is processed
+  const [processingStatus, setProcessingStatus] = useState<ProcessingStatus | null>(null);
+  // How the worksheet is graded, chosen by the teacher before uploading
+  const [settings, setSettings] = useState<WorksheetSettings>({});
+  const [showSettings, setShowSettings] = useState(false);
+  // Uploads of a worksheet seen before reuse its saved result unless this is ticked
+  const [refresh, setRefresh] = useState(false);
+  const [teacherCode, setTeacherCode] = useState("");
+  // Only PDFs are saved for later uploads; photos are prepared differently by each browser
+  const isPdf = files.some(item => item.file.type === "application/pdf");
+  const refreshing = isPdf && refresh;
+  // Stops the upload being processed when the user cancels
+  const abortRef = useRef<AbortController | null>(null);
   const navigate = useNavigate();
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setFile(e.target.files[0]);
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    // Let the same photo be picked again after it was removed
+    e.target.value = "";
+    if (selected.length === 0) return;
+
+    // A PDF already holds every page, so it's processed on its own
+    const pdf = selected.find(file => file.type === "application/pdf");
+    if (pdf) {
+      if (selected.length > 1 || files.length > 0) {
+        toast.info("PDFs are processed on their own, so the other files were removed");
+      }
+      setFiles([await prepareFile(pdf)]);
+      return;
     }
-  };
 
-  const simulateProcessingStages = () => {
-    const totalStages = processingStages.length;
-    let currentStage = 0;
-    
-    const interval = setInterval(() => {
-      if (currentStage < totalStages) {
-        setProcessingStage(currentStage);
-        setProcessingProgress(Math.floor((currentStage / (totalStages - 1)) * 100));
-        currentStage++;
-      } else {
-        clearInterval(interval);
+    const photos = files.filter(item => item.file.type.startsWith("image/"));
+    if (photos.length + selected.length > MAX_PHOTOS) {
+      toast.info(`Up to ${MAX_PHOTOS} photos can be processed at once`);
+    }
+
+    setIsPreparing(true);
+    const prepared: PreparedFile[] = [];
+    // One at a time: a full-size photo takes tens of megabytes to decode
+    for (const file of selected.slice(0, Math.max(0, MAX_PHOTOS - photos.length))) {
+      try {
+        prepared.push(await prepareFile(file));
+      } catch (error) {
+        toast.error(error.message);
       }
-    }, 1000);
-    
-    return () => clearInterval(interval);
+    }
+    setIsPreparing(false);
+    setFiles(current => [...current.filter(item => item.file.type.startsWith("image/")), ...prepared].slice(0, MAX_PHOTOS));
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!file) {
+    if (files.length === 0) {
       toast.error("Please upload a worksheet file");
       return;
     }
     
     setIsUploading(true);
-    const cleanupInterval = simulateProcessingStages();
+    setProcessingStatus(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
     
     // Clear any previous data
     clearStorage();
     
     try {
-      // Process the worksheet (now supports both images and PDFs)
-      const result = await processWorksheetImage(file);
+      // Process the worksheet (photos in page order, or one PDF). On failure the
+      // stages stay on screen, showing where it stopped, until the user goes back.
+      const result = await processWorksheetFiles(files.map(item => item.file), {
+        onStatus: setProcessingStatus,
+        signal: controller.signal,
+        refresh: refreshing,
+        teacherCode
+      });
       
       if (result.error || !result.worksheet) {
-        toast.error(result.error || "Failed to process worksheet");
-        setIsUploading(false);
-        cleanupInterval();
         return;
       }
       
-      // Save the processed worksheet
-      saveWorksheet(result.worksheet);
+      saveWorksheet({ ...result.worksheet, settings });
       
-      toast.success("Worksheet processed successfully!");
-      cleanupInterval();
       setTimeout(() => {
         navigate("/worksheet");
       }, 500);
@@ -85,14 +114,18 @@ const WorksheetUpload = () => {
       console.error("Error during worksheet processing:", error);
       toast.error("Something went wrong. Please try again.");
       setIsUploading(false);
-      cleanupInterval();
     }
   };
 
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    setIsUploading(false);
+  };
+
   const handleDemoClick = () => {
     clearStorage();
     const demoWorksheet = createSampleWorksheet();
-    saveWorksheet(demoWorksheet);
+    saveWorksheet({ ...demoWorksheet, settings });
     toast.success("Demo worksheet loaded!");
     navigate("/worksheet");
   };
@@ -112,33 +145,14 @@ const WorksheetUpload = () => {
             {
               id: "q1",
               type: "matching",
-              text: "It is my turn.",
-              options: [
-                { id: "a", text: "¡Oh no, te deslizaste por la serpiente!" },
-                { id: "b", text: "Es mi turno." },
-                { id: "c", text: "Voy a tirar el dado." },
-                { id: "d", text: "Te moviste dos espacios." },
-                { id: "e", text: "Subí la escalera." }
-              ],
-              correctAnswer: "b"
-            },
-            {
-              id: "q2",
-              type: "matching",
-              text: "I will throw the dice.",
-              options: [
-                { id: "a", text: "¡Oh no, te deslizaste por la serpiente!" },
-                { id: "b", text: "Es mi turno." },
-                { id: "c", text: "Voy a tirar el dado." },
-                { id: "d", text: "Te moviste dos espacios." },
-                { id: "e", text: "Subí la escalera." }
+              text: "Match each English sentence to its Spanish translation.",
+              items: [
+                { id: "1", text: "It is my turn." },
+                { id: "2", text: "I will throw the dice." },
+                { id: "3", text: "You moved two spaces." },
+                { id: "4", text: "I climbed the ladder." },
+                { id: "5", text: "Oh no, you slid down!" }
               ],
-              correctAnswer: "c"
-            },
-            {
-              id: "q3",
-              type: "matching",
-              text: "You moved two spaces.",
               options: [
                 { id: "a", text: "¡Oh no, te deslizaste por la serpiente!" },
                 { id: "b", text: "Es mi turno." },
@@ -146,33 +160,7 @@ const WorksheetUpload = () => {
                 { id: "d", text: "Te moviste dos espacios." },
                 { id: "e", text: "Subí la escalera." }
               ],
-              correctAnswer: "d"
-            },
-            {
-              id: "q4",
-              type: "matching",
-              text: "I climbed the ladder.",
-              options: [
-                { id: "a", text: "¡Oh no, te deslizaste por la serpiente!" },
-                { id: "b", text: "Es mi turno." },
-                { id: "c", text: "Voy a tirar el dado." },
-                { id: "d", text: "Te moviste dos espacios." },
-                { id: "e", text: "Subí la escalera." }
-              ],
-              correctAnswer: "e"
-            },
-            {
-              id: "q5",
-              type: "matching",
-              text: "Oh no, you slid down!",
-              options: [
-                { id: "a", text: "¡Oh no, te deslizaste por la serpiente!" },
-                { id: "b", text: "Es mi turno." },
-                { id: "c", text: "Voy a tirar el dado." },
-                { id: "d", text: "Te moviste dos espacios." },
-                { id: "e", text: "Subí la escalera." }
-              ],
-              correctAnswer: "a"
+              correctAnswer: { "1": "b", "2": "c", "3": "d", "4": "e", "5": "a" }
             }
           ]
         },
@@ -185,7 +173,9 @@ const WorksheetUpload = () => {
               id: "q6",
               type: "fill-blank",
               text: "_______ mi turno.",
-              correctAnswer: "Es"
+              correctAnswer: "Es",
+              hints: ["You need the verb \"ser\" (to be) for \"it\"."],
+              explanation: "\"Es\" is the form of \"ser\" for he, she or it, so \"Es mi turno\" means \"It is my turn.\""
             },
             {
               id: "q7",
@@ -203,13 +193,46 @@ const WorksheetUpload = () => {
               id: "q9",
               type: "fill-blank",
               text: "Subí la _______.",
-              correctAnswer: "escalera"
+              correctAnswer: "escalera",
+              hints: ["It's what you climb in Snakes and Ladders.", "It starts with \"esc\"."],
+              explanation: "\"Subí\" means \"I climbed\" and \"la escalera\" is \"the ladder\"."
             },
             {
               id: "q10",
               type: "fill-blank",
               text: "_______ no, te deslizaste por la serpiente.",
               correctAnswer: "Oh"
+            },
+            {
+              id: "q11",
+              type: "fill-blank",
+              text: "_______ mi turno. Voy a _______ el dado.",
+              correctAnswer: ["Es", "tirar"]
+            }
+          ]
+        },
+        {
+          id: "section-3",
+          title: "Sort the words",
+          instructions: "Is each word a noun or a verb?",
+          questions: [
+            {
+              id: "q12",
+              type: "categorize",
+              text: "Sort these game words into nouns and verbs.",
+              items: [
+                { id: "1", text: "el dado" },
+                { id: "2", text: "tirar" },
+                { id: "3", text: "la escalera" },
+                { id: "4", text: "subir" },
+                { id: "5", text: "el turno" },
+                { id: "6", text: "mover" }
+              ],
+              options: [
+                { id: "a", text: "Nouns" },
+                { id: "b", text: "Verbs" }
+              ],
+              correctAnswer: { "1": "a", "2": "b", "3": "a", "4": "b", "5": "a", "6": "b" }
             }
           ]
         }
@@ -221,8 +244,13 @@ const WorksheetUpload = () => {
     return (
       <Card className="p-6 shadow-lg rounded-3xl border-none">
         <LoadingState 
-          status={processingStages[processingStage]} 
-          progress={processingProgress}
+          status={processingStatus?.message || "Uploading..."} 
+          progress={processingStatus?.progress}
+          file={processingStatus?.file}
+          stages={processingStatus?.stages}
+          error={processingStatus?.error}
+          onRetry={() => setIsUploading(false)}
+          onCancel={handleCancel}
         />
       </Card>
     );
@@ -234,7 +262,7 @@ const WorksheetUpload = () => {
         Upload Your Worksheet
       </h2>
       <p className="text-center text-gray-600 mb-6">
-        Take a photo or upload an image of your worksheet
+        Take a photo or upload an image of your worksheet. Add a photo per page for double-sided worksheets.
       </p>
       
       <form onSubmit={handleSubmit} className="space-y-6">
@@ -246,6 +274,7 @@ const WorksheetUpload = () => {
             id="file-upload"
             type="file"
             accept="image/*,.pdf"
+            multiple
             onChange={handleFileChange}
             className="hidden"
           />
@@ -255,9 +284,9 @@ const WorksheetUpload = () => {
             strokeWidth={1.5}
           />
           
-          {file ? (
+          {files.length > 0 ? (
             <p className="text-quiz-primary font-medium">
-              {file.name}
+              {files[0].file.type === "application/pdf" ? files[0].original.name : "Tap to add another page"}
             </p>
           ) : (
             <>
@@ -271,12 +300,76 @@ const WorksheetUpload = () => {
           )}
         </div>
         
+        {/* Opens the camera straight away on phones */}
+        <input
+          id="camera-upload"
+          type="file"
+          accept="image/*"
+          capture="environment"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          className="w-full flex items-center justify-center gap-2 h-12 rounded-xl"
+          onClick={() => document.getElementById("camera-upload")?.click()}
+        >
+          <Camera className="h-5 w-5" />
+          <span>{files.length > 0 ? "Take a photo of the next page" : "Take a photo"}</span>
+        </Button>
+
+        {files[0]?.file.type.startsWith("image/") && (
+          <UploadPageList files={files} onChange={setFiles} />
+        )}
+
+        <div className="space-y-3">
+          <Button
+            type="button"
+            variant="ghost"
+            className="w-full flex items-center justify-center gap-2 text-gray-600"
+            aria-expanded={showSettings}
+            onClick={() => setShowSettings(!showSettings)}
+          >
+            <SlidersHorizontal className="h-4 w-4" />
+            <span>Grading settings</span>
+          </Button>
+          {showSettings && <WorksheetSettingsForm settings={settings} onChange={setSettings} />}
+        </div>
+
+        {/* PDFs uploaded before come back from the saved result, answer key and all */}
+        {isPdf && (
+          <div className="flex items-start gap-3">
+            <Checkbox
+              id="refresh-extraction"
+              checked={refresh}
+              onCheckedChange={(checked) => setRefresh(checked === true)}
+              className="mt-0.5 border-quiz-primary data-[state=checked]:bg-quiz-primary"
+            />
+            <Label htmlFor="refresh-extraction" className="text-sm text-gray-600 font-normal leading-snug cursor-pointer">
+              Extract again, replacing the saved answer key from an earlier upload of this PDF
+            </Label>
+          </div>
+        )}
+        {refreshing && (
+          <div className="space-y-1 text-left">
+            <Label htmlFor="teacher-code" className="text-xs text-gray-500">Teacher code</Label>
+            <Input
+              id="teacher-code"
+              type="password"
+              autoComplete="off"
+              value={teacherCode}
+              onChange={(event) => setTeacherCode(event.target.value)}
+            />
+          </div>
+        )}
+
         <Button 
           type="submit" 
           className="w-full h-12 text-lg bg-quiz-primary hover:bg-quiz-primary/90 rounded-xl"
-          disabled={!file}
+          disabled={files.length === 0 || isPreparing || (refreshing && !teacherCode)}
         >
-          Process Worksheet
+          {isPreparing ? "Preparing photos..." : "Process Worksheet"}
         </Button>
       </form>
       
@@ -59,6 +59,78 @@ export type Database = {
         }
         Relationships: []
       }
+      extraction_cache: {
+        Row: {
+          created_at: string
+          hash: string
+          result: Json
+          version: string
+        }
+        Insert: {
+          created_at?: string
+          hash: string
+          result: Json
+          version: string
+        }
+        Update: {
+          created_at?: string
+          hash?: string
+          result?: Json
+          version?: string
+        }
+        Relationships: []
+      }
+      extraction_jobs: {
+        Row: {
+          attempts: number
+          created_at: string
+          error: string | null
+          error_stage: string | null
+          file_type: string | null
+          finished_at: string | null
+          id: string
+          image: string | null
+          progress: Json | null
+          refresh: boolean
+          result: Json | null
+          started_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          error?: string | null
+          error_stage?: string | null
+          file_type?: string | null
+          finished_at?: string | null
+          id?: string
+          image?: string | null
+          progress?: Json | null
+          refresh?: boolean
+          result?: Json | null
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          error?: string | null
+          error_stage?: string | null
+          file_type?: string | null
+          finished_at?: string | null
+          id?: string
+          image?: string | null
+          progress?: Json | null
+          refresh?: boolean
+          result?: Json | null
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       messages: {
         Row: {
           audio_duration: number | null
@@ -5,23 +5,23 @@ import {
   getWorksheet, 
   getStudentInfo, 
   isCompleted,
-  getCorrectAnswersCount,
-  getTotalQuestionsCount,
+  getWorksheetScore,
   clearStorage
 } from "@/utils/storage";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Download, Share, RefreshCcw } from "lucide-react";
 import { generatePDF } from "@/services/pdfService";
+import AnswerReview from "@/components/AnswerReview";
+import { getMaxAttempts } from "@/utils/attempts";
+import { formatPoints, WorksheetScore } from "@/utils/scoring";
 import { toast } from "sonner";
 
 const Results = () => {
   const navigate = useNavigate();
   const [worksheet, setWorksheet] = useState(getWorksheet());
   const [studentInfo, setStudentInfo] = useState(getStudentInfo());
-  const [correctCount, setCorrectCount] = useState(0);
-  const [totalCount, setTotalCount] = useState(0);
-  const [scorePercent, setScorePercent] = useState(0);
+  const [score, setScore] = useState<WorksheetScore | null>(null);
   const [pdfUrl, setPdfUrl] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   
@@ -41,13 +41,7 @@ const Results = () => {
     }
     
     // Calculate score
-    const correct = getCorrectAnswersCount();
-    const total = getTotalQuestionsCount();
-    const percent = Math.round((correct / total) * 100);
-    
-    setCorrectCount(correct);
-    setTotalCount(total);
-    setScorePercent(percent);
+    setScore(getWorksheetScore());
     
   }, [navigate, worksheet, studentInfo]);
   
@@ -134,6 +128,9 @@ const Results = () => {
     navigate("/");
   };
   
+  const scorePercent = score?.percent ?? 0;
+  const allowsRetries = getMaxAttempts(worksheet?.settings?.attempts) > 1;
+  
   if (!worksheet || !studentInfo) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -172,8 +169,17 @@ const Results = () => {
               <div>
                 <p className="text-sm text-gray-500">Score</p>
                 <p className="text-2xl font-bold">
-                  {correctCount}/{totalCount}
+                  {formatPoints(score?.earned ?? 0)}/{formatPoints(score?.possible ?? 0)}
+                  <span className="text-base font-medium text-gray-500"> pts</span>
+                </p>
+                <p className="text-sm text-gray-500">
+                  {score?.correct ?? 0} of {score?.total ?? 0} fully correct
                 </p>
+                {allowsRetries && (
+                  <p className="text-sm text-gray-500">
+                    {score?.firstTryCorrect ?? 0} of {score?.total ?? 0} right on the first try
+                  </p>
+                )}
               </div>
               
               <div className={`text-3xl font-bold rounded-full h-20 w-20 flex items-center justify-center ${
@@ -186,6 +192,22 @@ const Results = () => {
                 {scorePercent}%
               </div>
             </div>
+            
+            {score && score.sections.length > 1 && (
+              <div className="mt-6 pt-4 border-t border-gray-200 space-y-2">
+                {score.sections.map((section) => (
+                  <div 
+                    key={section.sectionId}
+                    className="flex justify-between text-sm"
+                  >
+                    <span className="text-gray-600 pr-4">{section.title}</span>
+                    <span className="font-medium whitespace-nowrap">
+                      {formatPoints(section.earned)}/{formatPoints(section.possible)} pts
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
           
           <div className="space-y-3">
@@ -210,6 +232,8 @@ const Results = () => {
           </div>
         </Card>
         
+        <AnswerReview worksheet={worksheet} />
+        
         <div className="text-center">
           <Button 
             variant="ghost"
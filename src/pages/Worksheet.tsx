@@ -13,8 +13,10 @@ import {
 import Question from "@/components/Question";
 import ProgressBar from "@/components/ProgressBar";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, CheckSquare } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle, ArrowLeft, CheckSquare } from "lucide-react";
 import { toast } from "sonner";
+import { describeAttemptPolicy } from "@/utils/attempts";
 
 const Worksheet = () => {
   const navigate = useNavigate();
@@ -70,6 +72,10 @@ const Worksheet = () => {
   }
 
   const currentQuestion = allQuestions[currentIndex];
+  const attemptNote = describeAttemptPolicy(worksheet.settings?.attempts);
+  const currentSection = worksheet.sections.find(section =>
+    section.questions.some(question => question.id === currentQuestion?.id)
+  );
 
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col">
@@ -98,9 +104,29 @@ const Worksheet = () => {
       </header>
       
       <main className="flex-grow container max-w-md px-4 py-6">
+        {currentIndex === 0 && worksheet.skipped?.length > 0 && (
+          <Alert className="mb-6 border-amber-300 bg-amber-50">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Part of the worksheet is missing</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-4 text-sm">
+                {worksheet.skipped.map(note => <li key={note}>{note}</li>)}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {currentIndex === 0 && attemptNote && (
+          <p className="mb-6 text-sm text-gray-600 text-center">{attemptNote}</p>
+        )}
+
         {currentQuestion ? (
           <Question 
             question={currentQuestion} 
+            gradingPolicy={worksheet.settings?.grading}
+            hintPenalty={worksheet.settings?.hintPenalty}
+            attemptPolicy={worksheet.settings?.attempts}
+            sectionMedia={currentSection?.media}
             onNext={handleNextQuestion} 
           />
         ) : (
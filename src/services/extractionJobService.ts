@@ -0,0 +1,84 @@
+import {
+  ExtractionError,
+  type ExtractionProgress,
+  type ExtractionRequest,
+  type ExtractionResponse
+} from "@shared/extraction";
+import type { ExtractionJob } from "@shared/extractionJobs";
+
+const JOBS_URL = "/.netlify/functions/extraction-jobs";
+const POLL_INTERVAL_MS = 1500;
+// The worker stops after 15 minutes; the server marks the job failed soon after
+const MAX_WAIT_MS = 17 * 60 * 1000;
+
+const callJobs = async (params: string, init?: RequestInit): Promise<ExtractionJob> => {
+  const response = await fetch(`${JOBS_URL}${params}`, init);
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const message = body.error || "Failed to reach the extraction service";
+    throw body.stage ? new ExtractionError(message, body.stage) : new Error(message);
+  }
+  return body;
+};
+
+export const submitExtractionJob = (request: ExtractionRequest): Promise<ExtractionJob> =>
+  callJobs("", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request)
+  });
+
+export const getExtractionJob = (id: string): Promise<ExtractionJob> =>
+  callJobs(`?id=${encodeURIComponent(id)}`);
+
+export const cancelExtractionJob = (id: string): Promise<ExtractionJob> =>
+  callJobs(`?id=${encodeURIComponent(id)}&action=cancel`, { method: "POST" });
+
+// Resolves early when the signal is aborted; the caller checks which happened
+const pause = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timeoutId = setTimeout(done, ms);
+    signal?.addEventListener("abort", done);
+  });
+
+// Polls a job until it finishes, passing on each progress report the worker saves.
+// Aborting the signal cancels the job on the server as well.
+export const waitForExtractionJob = async (
+  job: ExtractionJob,
+  onProgress: (progress: ExtractionProgress) => void,
+  signal?: AbortSignal
+): Promise<ExtractionResponse> => {
+  const startedAt = Date.now();
+  let lastProgress = "";
+
+  for (let current = job; ; current = await getExtractionJob(job.id)) {
+    if (signal?.aborted) {
+      await cancelExtractionJob(job.id).catch(error => console.error("Error cancelling job:", error));
+      throw new Error("Processing was cancelled");
+    }
+
+    if (current.progress && JSON.stringify(current.progress) !== lastProgress) {
+      lastProgress = JSON.stringify(current.progress);
+      onProgress(current.progress);
+    }
+
+    switch (current.status) {
+      case "succeeded":
+        return current.result;
+      case "failed":
+        throw new ExtractionError(current.error || "Failed to process worksheet", current.errorStage || "model");
+      case "cancelled":
+        throw new Error("Processing was cancelled");
+    }
+
+    if (Date.now() - startedAt > MAX_WAIT_MS) {
+      throw new Error("The worksheet is taking too long to process. Please try again.");
+    }
+    await pause(POLL_INTERVAL_MS, signal);
+  }
+};
@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { gradeTextResponse } from "@/services/gradingService";
+import { Question } from "@/types";
+
+const { invoke } = vi.hoisted(() => ({ invoke: vi.fn() }));
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: { functions: { invoke } }
+}));
+
+const question: Question = {
+  id: "q1",
+  type: "text",
+  text: "Why do plants need sunlight?",
+  correctAnswer: "To make food by photosynthesis",
+  points: 2
+};
+
+const UNAVAILABLE = "Checked against the answer key because the grader was unavailable.";
+
+describe("gradeTextResponse", () => {
+  afterEach(() => {
+    invoke.mockReset();
+    vi.restoreAllMocks();
+  });
+
+  it("skips the grader for an exact match", async () => {
+    expect(await gradeTextResponse(question, "to make food by photosynthesis")).toEqual({ isCorrect: true, score: 1 });
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it("scales the grader's points to a share of the credit", async () => {
+    invoke.mockResolvedValue({ data: { points: 1, maxPoints: 2, feedback: "Say what the food is made from." }, error: null });
+
+    expect(await gradeTextResponse(question, "They need it to grow")).toEqual({
+      isCorrect: false,
+      score: 0.5,
+      feedback: "Say what the food is made from."
+    });
+    expect(invoke).toHaveBeenCalledWith("grade-response", {
+      body: expect.objectContaining({ modelAnswer: "To make food by photosynthesis", maxPoints: 2 })
+    });
+  });
+
+  it("falls back to the answer key when the grader fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    invoke.mockResolvedValue({ data: null, error: new Error("Function not found") });
+
+    expect(await gradeTextResponse(question, "They need it to grow")).toEqual({
+      isCorrect: false,
+      score: 0,
+      feedback: UNAVAILABLE
+    });
+  });
+
+  it("falls back when the grader's reply is unusable", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    invoke.mockResolvedValue({ data: null, error: null });
+
+    expect((await gradeTextResponse(question, "They need it to grow")).feedback).toBe(UNAVAILABLE);
+  });
+
+  it("keeps the local feedback when falling back on a near miss", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    invoke.mockRejectedValue(new Error("Network error"));
+
+    const result = await gradeTextResponse(question, "To make food by photosynthesiss");
+    expect(result.isCorrect).toBe(true);
+    expect(result.feedback).toMatch(/^Accepted with a typo/);
+  });
+});
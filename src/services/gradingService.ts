@@ -0,0 +1,58 @@
+import { GradingPolicy, Question } from "@/types";
+import { supabase } from "@/integrations/supabase/client";
+import { gradeText, GradeResult } from "@/utils/grading";
+import { getQuestionPoints } from "@/utils/scoring";
+
+interface RubricGrade {
+  points: number;
+  maxPoints: number;
+  feedback: string;
+}
+
+// Open "text" answers are scored by the grade-response function against the model
+// answer or rubric. Exact matches skip the round trip, and if the function can't be
+// reached we fall back to the local text comparison.
+export const gradeTextResponse = async (
+  question: Question,
+  answer: string,
+  worksheetPolicy?: GradingPolicy
+): Promise<GradeResult> => {
+  const localResult = gradeText(answer, question, worksheetPolicy);
+  if (localResult.isCorrect && !localResult.feedback) {
+    return localResult;
+  }
+
+  try {
+    const maxPoints = getQuestionPoints(question) || 1;
+    const { data, error } = await supabase.functions.invoke<RubricGrade>("grade-response", {
+      body: {
+        question: question.text,
+        answer,
+        modelAnswer: Array.isArray(question.correctAnswer)
+          ? question.correctAnswer.join(" / ")
+          : typeof question.correctAnswer === "string"
+          ? question.correctAnswer
+          : undefined,
+        rubric: question.rubric,
+        maxPoints
+      }
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    const score = data.maxPoints > 0 ? data.points / data.maxPoints : 0;
+    return {
+      isCorrect: score >= 1,
+      score: Math.min(Math.max(score, 0), 1),
+      feedback: data.feedback || undefined
+    };
+  } catch (error) {
+    console.error("Error grading response:", error);
+    return {
+      ...localResult,
+      feedback: localResult.feedback || "Checked against the answer key because the grader was unavailable."
+    };
+  }
+};
@@ -0,0 +1,299 @@
+// Phone photos are 8–12MP, often sideways with an EXIF rotation, and show the table around
+// the page. The model reads at most about 2048px anyway, so each photo is turned upright,
+// cropped to the page, scaled down, given more contrast and sent as a compressed JPEG.
+
+export interface PreparedFile {
+  // What was picked, shown as the "before" preview
+  original: File;
+  // What gets uploaded, and what figures are later cropped from
+  file: File;
+  // What preprocessing did, for the preview; empty when the file is sent as picked
+  changes: string[];
+}
+
+// Long edge of the uploaded photo; larger images are scaled down by the model anyway
+const MAX_DIMENSION = 2048;
+const JPEG_QUALITY = 0.85;
+// Long edge of the copy the page and contrast are measured on
+const ANALYSIS_SIZE = 256;
+// The page has to be this much brighter than its background to be cropped to
+const MIN_PAGE_CONTRAST = 60;
+// Kept around the detected page, as a fraction of each side, so its edges aren't cut
+const PAGE_MARGIN = 0.01;
+// Darkest and lightest share of pixels ignored when stretching the contrast
+const LEVELS_CLIP = 0.01;
+// Photos already spanning this much of the range are left as they are
+const MIN_STRETCH_RANGE = 200;
+const MAX_CONTRAST_GAIN = 2.5;
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface GrayImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+const isHeic = (file: File): boolean =>
+  /image\/hei[cf]/.test(file.type) || /\.hei[cf]$/i.test(file.name);
+
+// The EXIF orientation of a JPEG, or 1 when it's upright or has none. Only read to say so
+// in the preview: decoding with imageOrientation "from-image" already turns the pixels.
+const readOrientation = async (file: File): Promise<number> => {
+  if (file.type !== "image/jpeg") return 1;
+
+  try {
+    const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+    if (view.getUint16(0) !== 0xffd8) return 1;
+
+    for (let offset = 2; offset + 4 <= view.byteLength; offset += 2 + view.getUint16(offset + 2)) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xff00) !== 0xff00) return 1;
+      // APP1 holding "Exif", followed by a TIFF header and the first directory
+      if (marker !== 0xffe1 || view.getUint32(offset + 4) !== 0x45786966) continue;
+
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const directory = tiff + view.getUint32(tiff + 4, little);
+      const entries = view.getUint16(directory, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = directory + 2 + i * 12;
+        if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little);
+      }
+      return 1;
+    }
+  } catch (error) {
+    // Truncated or unusual headers; the preview just won't mention the rotation
+    console.warn("Could not read the photo's orientation:", error);
+  }
+  return 1;
+};
+
+const readGray = (bitmap: ImageBitmap): GrayImage | null => {
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const context = canvas.getContext("2d");
+  if (!context) return null;
+
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+
+  const gray = new Uint8Array(canvas.width * canvas.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+  }
+  return { data: gray, width: canvas.width, height: canvas.height };
+};
+
+// The brightness that best splits the pixels into two groups (Otsu's method)
+const splitThreshold = (histogram: number[], total: number): number => {
+  const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+  let darkSum = 0;
+  let darkCount = 0;
+  let best = 0;
+  let threshold = 128;
+
+  for (let value = 0; value < 256; value++) {
+    darkCount += histogram[value];
+    const lightCount = total - darkCount;
+    if (darkCount === 0) continue;
+    if (lightCount === 0) break;
+
+    darkSum += value * histogram[value];
+    const difference = darkSum / darkCount - (sum - darkSum) / lightCount;
+    const between = darkCount * lightCount * difference * difference;
+    if (between > best) {
+      best = between;
+      threshold = value;
+    }
+  }
+  return threshold;
+};
+
+// Where the page sits, as fractions of the photo, when it's clearly lighter than what's
+// around it. A photo filled by the page has light pixels in most of every row and column,
+// so it isn't cropped; neither is one where the "page" found is implausibly small.
+const findPage = ({ data, width, height }: GrayImage): Box | null => {
+  const histogram = new Array<number>(256).fill(0);
+  data.forEach(value => histogram[value]++);
+  const threshold = splitThreshold(histogram, data.length);
+
+  let darkSum = 0;
+  let darkCount = 0;
+  for (let value = 0; value <= threshold; value++) {
+    darkSum += value * histogram[value];
+    darkCount += histogram[value];
+  }
+  const lightCount = data.length - darkCount;
+  const totalSum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+  if (!darkCount || !lightCount || (totalSum - darkSum) / lightCount - darkSum / darkCount < MIN_PAGE_CONTRAST) {
+    return null;
+  }
+
+  const rowLight = new Array<number>(height).fill(0);
+  const columnLight = new Array<number>(width).fill(0);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[y * width + x] > threshold) {
+        rowLight[y]++;
+        columnLight[x]++;
+      }
+    }
+  }
+
+  const top = rowLight.findIndex(count => count > width / 2);
+  const left = columnLight.findIndex(count => count > height / 2);
+  if (top < 0 || left < 0) return null;
+  const bottom = height - 1 - [...rowLight].reverse().findIndex(count => count > width / 2);
+  const right = width - 1 - [...columnLight].reverse().findIndex(count => count > height / 2);
+
+  const x = Math.max(0, left / width - PAGE_MARGIN);
+  const y = Math.max(0, top / height - PAGE_MARGIN);
+  const box = {
+    x,
+    y,
+    width: Math.min(1, (right + 1) / width + PAGE_MARGIN) - x,
+    height: Math.min(1, (bottom + 1) / height + PAGE_MARGIN) - y
+  };
+
+  const area = box.width * box.height;
+  return area >= 0.3 && area <= 0.95 ? box : null;
+};
+
+// The brightness range to stretch to full black and white, measured inside the page, or
+// null when the photo already has good contrast
+const findLevels = ({ data, width, height }: GrayImage, box: Box): { low: number; high: number } | null => {
+  const histogram = new Array<number>(256).fill(0);
+  let total = 0;
+  for (let y = Math.floor(box.y * height); y < Math.ceil((box.y + box.height) * height); y++) {
+    for (let x = Math.floor(box.x * width); x < Math.ceil((box.x + box.width) * width); x++) {
+      histogram[data[y * width + x]]++;
+      total++;
+    }
+  }
+
+  const percentile = (share: number): number => {
+    let seen = 0;
+    for (let value = 0; value < 256; value++) {
+      seen += histogram[value];
+      if (seen > total * share) return value;
+    }
+    return 255;
+  };
+
+  const high = percentile(1 - LEVELS_CLIP);
+  // Flat, washed-out photos would need a large gain; cap it so noise isn't blown up
+  const low = Math.min(percentile(LEVELS_CLIP), high - 255 / MAX_CONTRAST_GAIN);
+  return high - low < MIN_STRETCH_RANGE ? { low, high } : null;
+};
+
+const stretchContrast = (context: CanvasRenderingContext2D, width: number, height: number, levels: { low: number; high: number }) => {
+  const table = new Uint8ClampedArray(256);
+  for (let value = 0; value < 256; value++) {
+    table[value] = ((value - levels.low) * 255) / (levels.high - levels.low);
+  }
+
+  const image = context.getImageData(0, 0, width, height);
+  const { data } = image;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = table[data[i]];
+    data[i + 1] = table[data[i + 1]];
+    data[i + 2] = table[data[i + 2]];
+  }
+  context.putImageData(image, 0, 0);
+};
+
+const toJpeg = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error("Could not encode the photo"))),
+      "image/jpeg",
+      JPEG_QUALITY
+    );
+  });
+
+const preprocess = async (file: File, bitmap: ImageBitmap): Promise<PreparedFile> => {
+  const changes: string[] = [];
+  if ((await readOrientation(file)) > 1) changes.push("Turned upright");
+
+  const gray = readGray(bitmap);
+  const page = gray && findPage(gray);
+  const crop = page || { x: 0, y: 0, width: 1, height: 1 };
+  if (page) changes.push("Cropped to the page");
+
+  const sourceX = crop.x * bitmap.width;
+  const sourceY = crop.y * bitmap.height;
+  const sourceWidth = crop.width * bitmap.width;
+  const sourceHeight = crop.height * bitmap.height;
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(sourceWidth, sourceHeight));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(sourceWidth * scale));
+  canvas.height = Math.max(1, Math.round(sourceHeight * scale));
+  if (scale < 1) changes.push(`Scaled down to ${canvas.width}×${canvas.height}`);
+
+  const context = canvas.getContext("2d");
+  if (!context) return { original: file, file, changes: [] };
+
+  // JPEG has no transparency; PNG screenshots would otherwise turn black
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.imageSmoothingQuality = "high";
+  context.drawImage(bitmap, sourceX, sourceY, sourceWidth, sourceHeight, 0, 0, canvas.width, canvas.height);
+
+  const levels = gray && findLevels(gray, crop);
+  if (levels) {
+    stretchContrast(context, canvas.width, canvas.height, levels);
+    changes.push("Contrast boosted");
+  }
+
+  const blob = await toJpeg(canvas);
+  if (file.type !== "image/jpeg") changes.push("Converted to JPEG");
+
+  return {
+    original: file,
+    file: new File([blob], `${file.name.replace(/\.[^.]+$/, "")}.jpg`, {
+      type: "image/jpeg",
+      lastModified: file.lastModified
+    }),
+    changes
+  };
+};
+
+// Prepares a picked file for upload. PDFs are sent as they are; so is a photo that can't
+// be processed here, except HEIC, which the model can't read either.
+export const prepareFile = async (file: File): Promise<PreparedFile> => {
+  if (!file.type.startsWith("image/") && !isHeic(file)) {
+    return { original: file, file, changes: [] };
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch (error) {
+    if (isHeic(file)) {
+      throw new Error(`${file.name} is a HEIC photo, which this browser can't open. Please choose a JPEG or use "Take a photo".`);
+    }
+    console.error("Error reading photo; it will be sent unchanged:", error);
+    return { original: file, file, changes: [] };
+  }
+
+  try {
+    return await preprocess(file, bitmap);
+  } catch (error) {
+    console.error("Error preparing photo; it will be sent unchanged:", error);
+    return { original: file, file, changes: [] };
+  } finally {
+    bitmap.close();
+  }
+};
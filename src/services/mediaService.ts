@@ -0,0 +1,88 @@
+import { Media, MediaBox, Worksheet } from "@/types";
+
+// Crops are stored with the worksheet in sessionStorage, so keep them small
+const MAX_CROP_WIDTH = 800;
+const CROP_QUALITY = 0.85;
+// Model boxes tend to be a little tight; pad them so labels at the edge survive
+const BOX_PADDING = 0.01;
+
+const loadImage = (file: File): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not load the worksheet image"));
+    };
+    image.src = url;
+  });
+
+// The padded region is returned with the crop so hotspot positions, which are
+// relative to the page, can still be placed on the cropped image
+const cropBox = (image: HTMLImageElement, box: MediaBox): Pick<Media, "src" | "box"> | null => {
+  const x = Math.max(0, box.x - BOX_PADDING);
+  const y = Math.max(0, box.y - BOX_PADDING);
+  const region: MediaBox = {
+    x,
+    y,
+    width: Math.min(1, box.x + box.width + BOX_PADDING) - x,
+    height: Math.min(1, box.y + box.height + BOX_PADDING) - y
+  };
+
+  const left = region.x * image.naturalWidth;
+  const top = region.y * image.naturalHeight;
+  const width = region.width * image.naturalWidth;
+  const height = region.height * image.naturalHeight;
+  if (width < 1 || height < 1) return null;
+
+  const scale = Math.min(1, MAX_CROP_WIDTH / width);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+
+  const context = canvas.getContext("2d");
+  if (!context) return null;
+
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, left, top, width, height, 0, 0, canvas.width, canvas.height);
+  return { src: canvas.toDataURL("image/jpeg", CROP_QUALITY), box: region };
+};
+
+const cropAll = (image: HTMLImageElement, media?: Media[]): Media[] | undefined =>
+  media?.map(item => (item.box && !item.src ? { ...item, ...cropBox(image, item.box) } : item));
+
+// Fills in `src` for every figure the extractor located on the uploaded image.
+// PDFs aren't rasterised in the browser, so their figures keep only the box and
+// description; the worksheet is returned unchanged if the image can't be read.
+export const attachMediaCrops = async (worksheet: Worksheet, file: File): Promise<Worksheet> => {
+  if (!file.type.startsWith("image/")) return worksheet;
+
+  const hasMedia = worksheet.sections.some(section =>
+    section.media?.length || section.questions.some(question => question.media?.length)
+  );
+  if (!hasMedia) return worksheet;
+
+  try {
+    const image = await loadImage(file);
+
+    return {
+      ...worksheet,
+      sections: worksheet.sections.map(section => ({
+        ...section,
+        media: cropAll(image, section.media),
+        questions: section.questions.map(question => ({
+          ...question,
+          media: cropAll(image, question.media)
+        }))
+      }))
+    };
+  } catch (error) {
+    console.error("Error cropping worksheet figures:", error);
+    return worksheet;
+  }
+};
@@ -1,98 +1,194 @@
-
-import { Worksheet } from "@/types";
+import { ProcessingStatus, Worksheet } from "@/types";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { v4 as uuidv4 } from "uuid";
+import { countQuestions, validateWorksheet } from "@shared/worksheetSchema";
+import {
+  ExtractionError,
+  type ExtractionProgress,
+  type ExtractionRequest,
+  type ExtractionResponse
+} from "@shared/extraction";
+import { EVENT_STREAM, readExtractionStream } from "@shared/extractionStream";
+import { submitExtractionJob, waitForExtractionJob } from "@/services/extractionJobService";
+import { attachMediaCrops } from "@/services/mediaService";
+import { mergeWorksheets } from "@/utils/merge";
+import {
+  applyProgress,
+  completeProcessing,
+  createProcessingStatus,
+  failStage,
+  startFile,
+  stopProcessing
+} from "@/utils/processingStatus";
 
-export const processWorksheetImage = async (
-  file: File
-): Promise<{ worksheet: Worksheet | null; error?: string }> => {
-  try {
-    // Show processing toast
-    const toastId = toast.loading("Processing worksheet...");
-
-    // Convert the file to base64
-    const base64 = await new Promise<string>((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
+export interface ProcessWorksheetOptions {
+  // Gets every change to the stages shown while waiting
+  onStatus?: (status: ProcessingStatus) => void;
+  // Aborting cancels a PDF's job; a photo already sent is finished but ignored
+  signal?: AbortSignal;
+  // Extract again instead of using results saved from an earlier upload, replacing them
+  refresh?: boolean;
+  // The server's TEACHER_CODE, without which a refresh is refused
+  teacherCode?: string;
+}
+
+const readAsDataURL = (file: File): Promise<string> =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+
+// Sends one photo or PDF to be extracted and checks the result against the shared
+// schema. Photos go to the Supabase function, which streams its progress; PDFs go to
+// Netlify's job API, because only Netlify can read their text.
+const extractWorksheet = async (
+  file: File,
+  onProgress: (progress: ExtractionProgress) => void,
+  { signal, refresh, teacherCode }: ProcessWorksheetOptions
+): Promise<{ worksheet: Worksheet; warnings: string[]; cached: boolean }> => {
+  const request: ExtractionRequest = {
+    image: await readAsDataURL(file),
+    fileType: file.type,
+    ...(refresh ? { refresh, teacherCode } : {})
+  };
+
+  let data: Partial<ExtractionResponse>;
+
+  if (file.type === 'application/pdf') {
+    // Long PDFs take longer than a function may run, so they're processed as a
+    // background job and polled until done
+    const job = await submitExtractionJob(request);
+    data = await waitForExtractionJob(job, onProgress, signal);
+  } else {
+    // Call the Supabase Edge Function for images; streamed responses come back unread
+    const result = await supabase.functions.invoke('process-worksheet', {
+      body: request,
+      headers: { Accept: EVENT_STREAM }
     });
 
-    // Determine which endpoint to use
-    const endpoint = file.type === 'application/pdf' 
-      ? '/.netlify/functions/process-pdf-fast'  // Use optimized PDF processor
-      : 'process-worksheet';  // Use Supabase for images
+    if (result.error) {
+      // A rejected request, e.g. a refresh without the teacher code, says why in its body
+      const body = await result.error.context?.json?.().catch(() => null);
+      throw body?.stage ? new ExtractionError(body.error, body.stage) : result.error;
+    }
+
+    data = result.data instanceof Response && result.data.body
+      ? await readExtractionStream(result.data.body, onProgress)
+      : result.data;
+  }
 
-    let response;
-    let data;
+  // The functions validate too; checking again here covers older deployments
+  const validated = data.worksheet ? validateWorksheet(data.worksheet, uuidv4) : null;
+  if (!validated || countQuestions(validated.worksheet) === 0) {
+    throw new ExtractionError("Could not detect worksheet format", "validated");
+  }
 
-    if (file.type === 'application/pdf') {
-      // Call Netlify function for PDFs with extended timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 25000); // 25 second timeout
-      
-      try {
-        response = await fetch(endpoint, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ 
-            image: base64,
-            fileType: file.type 
-          }),
-          signal: controller.signal
-        });
-      } catch (err) {
-        if (err.name === 'AbortError') {
-          throw new Error('PDF processing timed out. Try a smaller file.');
-        }
-        throw err;
-      } finally {
-        clearTimeout(timeoutId);
-      }
-      
-      data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to process PDF');
+  return {
+    worksheet: validated.worksheet,
+    warnings: [...(data.warnings || []), ...validated.warnings],
+    cached: !!data.cached
+  };
+};
+
+// Processes the photos of one worksheet in order and merges them; a PDF is sent on its
+// own. Figures are cropped from each photo before merging, while their positions still
+// refer to that photo.
+export const processWorksheetFiles = async (
+  files: File[],
+  options: ProcessWorksheetOptions = {}
+): Promise<{ worksheet: Worksheet | null; error?: string }> => {
+  // Show processing toast
+  const toastId = toast.loading("Processing worksheet...");
+  const { onStatus, signal } = options;
+  let status = createProcessingStatus(files);
+  const report = (next: ProcessingStatus) => {
+    status = next;
+    onStatus?.(status);
+  };
+  report(status);
+
+  try {
+    const parts: Worksheet[] = [];
+    const warnings: string[] = [];
+    const unreadPhotos: string[] = [];
+    // Whether every file was answered with a result saved from an earlier upload
+    let allCached = true;
+
+    for (const [index, file] of files.entries()) {
+      if (signal?.aborted) break;
+      const label = files.length > 1 ? `Photo ${index + 1}` : "";
+      if (label) {
+        toast.loading(`Processing photo ${index + 1} of ${files.length}...`, { id: toastId });
       }
-    } else {
-      // Call Supabase Edge Function for images
-      const result = await supabase.functions.invoke('process-worksheet', {
-        body: { 
-          image: base64,
-          fileType: file.type 
-        }
-      });
-      
-      if (result.error) {
-        throw result.error;
+      if (index > 0) report(startFile(status, files, index));
+
+      try {
+        const result = await extractWorksheet(
+          file,
+          progress => report(applyProgress(status, files, index, progress)),
+          options
+        );
+        parts.push(await attachMediaCrops(result.worksheet, file));
+        allCached = allCached && result.cached;
+        warnings.push(...result.warnings.map(warning => (label ? `${label}: ${warning}` : warning)));
+      } catch (error) {
+        if (signal?.aborted) break;
+        report(failStage(status, error.message, error instanceof ExtractionError ? error.stage : undefined));
+        // One unreadable photo shouldn't cost the rest of the worksheet
+        if (files.length === 1) throw error;
+        console.error(`Error processing ${label}:`, error);
+        unreadPhotos.push(`${label} couldn't be read (${error.message})`);
       }
-      
-      data = result.data;
     }
 
-    if (!data.worksheet) {
-      toast.error("Could not process worksheet", {
+    if (signal?.aborted) {
+      toast.info("Processing cancelled", { id: toastId });
+      return { worksheet: null, error: "Processing was cancelled" };
+    }
+
+    if (parts.length === 0) {
+      throw new Error("None of the photos could be read");
+    }
+
+    report(completeProcessing(status));
+    const merged = mergeWorksheets(parts);
+    const skipped = [...(merged.skipped || []), ...unreadPhotos];
+    const worksheet = { ...merged, skipped: skipped.length ? skipped : undefined };
+
+    if (skipped.length) {
+      toast.warning("Part of the worksheet was skipped", {
+        id: toastId,
+        description: skipped.join(". ")
+      });
+    } else if (warnings.length > 0) {
+      console.warn("Worksheet validation warnings:", warnings);
+      toast.warning("Worksheet processed, but some questions needed fixing", {
+        id: toastId,
+        description: warnings.length > 1
+          ? `${warnings[0]} (and ${warnings.length - 1} more)`
+          : warnings[0]
+      });
+    } else if (allCached) {
+      toast.success("Worksheet loaded from an earlier upload", {
         id: toastId,
-        description: "The worksheet format could not be recognized"
+        description: "Everyone who uploads it gets the same answer key. A teacher can upload it with \"Extract again\" ticked to correct it."
+      });
+    } else {
+      // Success!
+      toast.success("Worksheet processed successfully!", {
+        id: toastId
       });
-      return { 
-        worksheet: null,
-        error: "Could not detect worksheet format" 
-      };
     }
 
-    // Success!
-    toast.success("Worksheet processed successfully!", {
-      id: toastId
-    });
-
-    return { worksheet: data.worksheet };
+    return { worksheet };
   } catch (error) {
     console.error("Error processing worksheet:", error);
+    report(stopProcessing(status, error.message));
     toast.error("Failed to process worksheet", {
+      id: toastId,
       description: error.message
     });
     return { 
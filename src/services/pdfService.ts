@@ -1,7 +1,145 @@
 
-import { Worksheet, StudentInfo } from "@/types";
+import { Worksheet, StudentInfo, Question, Media } from "@/types";
 import { jsPDF } from "jspdf";
 import html2canvas from "html2canvas";
+import { formatAnswer, isAnswerMap } from "@/utils/answers";
+import { getMaxAttempts } from "@/utils/attempts";
+import { getBlankAnswers, isMultiBlank, splitBlanks } from "@/utils/blanks";
+import { gradeBlanks, gradeLabels } from "@/utils/grading";
+import {
+  getDiagram,
+  getExpectedLabels,
+  getExtraMedia,
+  getHotspotPosition,
+  getHotspots
+} from "@/utils/hotspots";
+import { formatPoints, scoreQuestion, scoreSection, scoreWorksheet } from "@/utils/scoring";
+
+// Completed sentence with each blank underlined green or red, corrections in brackets
+const createBlankSentence = (
+  question: Question,
+  worksheet: Worksheet
+): HTMLParagraphElement => {
+  const answers = Array.isArray(question.userAnswer) ? question.userAnswer : [];
+  const grades = gradeBlanks(answers, question, worksheet.settings?.grading);
+  const expected = getBlankAnswers(question);
+  const sentence = document.createElement("p");
+  sentence.style.color = "#1A1F2C";
+  
+  splitBlanks(question.text).forEach((part, index, parts) => {
+    sentence.appendChild(document.createTextNode(part));
+    if (index === parts.length - 1) return;
+    
+    const blank = document.createElement("span");
+    blank.textContent = answers[index] || "___";
+    blank.style.fontWeight = "600";
+    blank.style.borderBottom = `2px solid ${grades[index].isCorrect ? "#10b981" : "#ef4444"}`;
+    blank.style.color = grades[index].isCorrect ? "#10b981" : "#ef4444";
+    sentence.appendChild(blank);
+    
+    if (!grades[index].isCorrect) {
+      const correction = document.createElement("span");
+      correction.textContent = ` (${expected[index]})`;
+      correction.style.color = "#10b981";
+      sentence.appendChild(correction);
+    }
+  });
+  
+  return sentence;
+};
+
+// A bold label and then text from the upload or the student, added as text rather than markup
+const createLabelledText = (label: string, text: string): HTMLParagraphElement => {
+  const element = document.createElement("p");
+  const labelElement = document.createElement("strong");
+  labelElement.textContent = `${label}:`;
+  element.append(labelElement, ` ${text}`);
+  return element;
+};
+
+// Cropped figures, full width; figures without an image are skipped
+const createMediaGallery = (media: Media[] = []): HTMLDivElement => {
+  const gallery = document.createElement("div");
+  
+  media.filter(item => item.src).forEach(item => {
+    const image = document.createElement("img");
+    image.src = item.src;
+    image.alt = item.description || "Figure from the worksheet";
+    image.style.display = "block";
+    image.style.maxWidth = "100%";
+    image.style.maxHeight = "240px";
+    image.style.margin = "0 auto 8px";
+    gallery.appendChild(image);
+  });
+  
+  return gallery;
+};
+
+// The diagram with coloured numbered markers, then each label with its correction
+const createLabelledDiagram = (
+  question: Question,
+  worksheet: Worksheet
+): HTMLDivElement => {
+  const labels = isAnswerMap(question.userAnswer) ? question.userAnswer : {};
+  const grades = gradeLabels(labels, question, worksheet.settings?.grading);
+  const expected = getExpectedLabels(question);
+  const diagram = getDiagram(question);
+  const hotspots = getHotspots(question);
+  const wrapper = document.createElement("div");
+  
+  if (diagram?.src) {
+    const figure = document.createElement("div");
+    figure.style.position = "relative";
+    figure.style.marginBottom = "8px";
+    
+    const image = document.createElement("img");
+    image.src = diagram.src;
+    image.alt = diagram.description || "Diagram";
+    image.style.display = "block";
+    image.style.width = "100%";
+    figure.appendChild(image);
+    
+    hotspots.forEach((hotspot, index) => {
+      const position = getHotspotPosition(hotspot, diagram);
+      if (!position) return;
+      
+      const marker = document.createElement("span");
+      marker.textContent = hotspot.id;
+      marker.style.position = "absolute";
+      marker.style.left = `calc(${position.left}% - 10px)`;
+      marker.style.top = `calc(${position.top}% - 10px)`;
+      marker.style.width = "20px";
+      marker.style.height = "20px";
+      marker.style.lineHeight = "20px";
+      marker.style.borderRadius = "50%";
+      marker.style.textAlign = "center";
+      marker.style.fontSize = "11px";
+      marker.style.fontWeight = "bold";
+      marker.style.color = "#ffffff";
+      marker.style.background = grades[index].isCorrect ? "#10b981" : "#ef4444";
+      figure.appendChild(marker);
+    });
+    
+    wrapper.appendChild(figure);
+  }
+  
+  hotspots.forEach((hotspot, index) => {
+    const row = document.createElement("p");
+    row.textContent = `${hotspot.id}. ${labels[hotspot.id] || "—"}`;
+    row.style.color = grades[index].isCorrect ? "#10b981" : "#ef4444";
+    
+    if (!grades[index].isCorrect) {
+      const correction = document.createElement("span");
+      correction.textContent = ` (${expected[hotspot.id]})`;
+      correction.style.color = "#10b981";
+      row.appendChild(correction);
+    }
+    
+    wrapper.appendChild(row);
+  });
+  
+  return wrapper;
+};
 
 export const generatePDF = async (
   worksheet: Worksheet, 
@@ -26,33 +164,39 @@ export const generatePDF = async (
   // Add student info
   const studentElement = document.createElement("div");
   studentElement.className = "student-info mb-4";
-  studentElement.innerHTML = `
-    <p><strong>Student:</strong> ${studentInfo.name}</p>
-    <p><strong>Completed:</strong> ${studentInfo.timestamp}</p>
-  `;
+  studentElement.append(
+    createLabelledText("Student", studentInfo.name),
+    createLabelledText("Completed", studentInfo.timestamp)
+  );
   container.appendChild(studentElement);
   
   // Calculate score
-  const totalQuestions = worksheet.sections.reduce(
-    (sum, section) => sum + section.questions.length, 
-    0
-  );
-  
-  const correctAnswers = worksheet.sections.reduce(
-    (sum, section) => sum + section.questions.filter(q => q.isCorrect).length, 
-    0
-  );
-  
-  const scorePercent = Math.round((correctAnswers / totalQuestions) * 100);
+  const score = scoreWorksheet(worksheet);
   
   // Add score
   const scoreElement = document.createElement("div");
   scoreElement.className = "score-info mb-8";
+  const firstTryRow = getMaxAttempts(worksheet.settings?.attempts) > 1
+    ? `<p style="font-size: 14px; margin: 4px 0 0;">${score.firstTryCorrect} of ${score.total} right on the first try</p>`
+    : "";
   scoreElement.innerHTML = `
     <div style="border: 2px solid #9b87f5; border-radius: 8px; padding: 12px; text-align: center; margin-bottom: 16px;">
-      <p style="font-size: 18px; margin: 0;"><strong>Score:</strong> ${correctAnswers}/${totalQuestions} (${scorePercent}%)</p>
+      <p style="font-size: 18px; margin: 0;"><strong>Score:</strong> ${formatPoints(score.earned)}/${formatPoints(score.possible)} pts (${score.percent}%)</p>
+      <p style="font-size: 14px; margin: 4px 0 0;">${score.correct} of ${score.total} questions fully correct</p>
+      ${firstTryRow}
     </div>
   `;
+  // Section titles come from the upload, so they're added as text rather than markup
+  if (score.sections.length > 1) {
+    const scoreBox = scoreElement.firstElementChild;
+    score.sections.forEach(section => {
+      const row = document.createElement("p");
+      row.textContent = `${section.title}: ${formatPoints(section.earned)}/${formatPoints(section.possible)} pts`;
+      row.style.margin = "4px 0 0";
+      row.style.fontSize = "14px";
+      scoreBox?.appendChild(row);
+    });
+  }
   container.appendChild(scoreElement);
   
   // Loop through sections
@@ -61,8 +205,9 @@ export const generatePDF = async (
     const sectionElement = document.createElement("div");
     sectionElement.className = "section mb-6";
     
+    const sectionScore = scoreSection(section);
     const sectionTitle = document.createElement("h2");
-    sectionTitle.textContent = section.title;
+    sectionTitle.textContent = `${section.title} (${formatPoints(sectionScore.earned)}/${formatPoints(sectionScore.possible)} pts)`;
     sectionTitle.style.fontSize = "18px";
     sectionTitle.style.fontWeight = "bold";
     sectionTitle.style.marginBottom = "8px";
@@ -73,6 +218,7 @@ export const generatePDF = async (
     instructions.textContent = section.instructions;
     instructions.style.marginBottom = "12px";
     sectionElement.appendChild(instructions);
+    sectionElement.appendChild(createMediaGallery(section.media));
     
     // Loop through questions
     section.questions.forEach((question, index) => {
@@ -84,25 +230,59 @@ export const generatePDF = async (
       questionElement.style.marginBottom = "16px";
       
       const questionText = document.createElement("p");
-      questionText.textContent = `${index + 1}. ${question.text}`;
+      const questionScore = scoreQuestion(question);
+      questionText.textContent = `${index + 1}. ${question.text} (${formatPoints(questionScore.earned)}/${formatPoints(questionScore.possible)} pts)`;
       questionText.style.marginBottom = "8px";
       questionText.style.fontWeight = "500";
       questionElement.appendChild(questionText);
+      questionElement.appendChild(createMediaGallery(getExtraMedia(question)));
       
       // Add user answer
       const userAnswerElement = document.createElement("div");
-      userAnswerElement.innerHTML = `<p><strong>Your answer:</strong> ${question.userAnswer || "Not answered"}</p>`;
       
       // Style based on correctness
-      if (question.isCorrect) {
-        userAnswerElement.style.color = "#10b981";
+      const isPartial = !question.isCorrect && (question.score || 0) > 0;
+      if (isMultiBlank(question)) {
+        userAnswerElement.appendChild(createBlankSentence(question, worksheet));
+      } else if (question.type === "label-diagram") {
+        userAnswerElement.appendChild(createLabelledDiagram(question, worksheet));
       } else {
-        userAnswerElement.style.color = "#ef4444";
-        // Add correct answer for incorrect responses
-        const correctAnswerElement = document.createElement("p");
-        correctAnswerElement.innerHTML = `<strong>Correct answer:</strong> ${Array.isArray(question.correctAnswer) ? question.correctAnswer.join(", ") : question.correctAnswer}`;
-        correctAnswerElement.style.color = "#10b981";
-        userAnswerElement.appendChild(correctAnswerElement);
+        userAnswerElement.appendChild(createLabelledText("Your answer", formatAnswer(question, question.userAnswer)));
+        
+        if (question.isCorrect) {
+          userAnswerElement.style.color = "#10b981";
+        } else {
+          userAnswerElement.style.color = isPartial ? "#d97706" : "#ef4444";
+          // Add correct answer for incorrect responses
+          const correctAnswerElement = createLabelledText("Correct answer", formatAnswer(question, question.correctAnswer));
+          correctAnswerElement.style.color = "#10b981";
+          userAnswerElement.appendChild(correctAnswerElement);
+        }
+      }
+      
+      if (question.feedback) {
+        const feedbackElement = document.createElement("p");
+        feedbackElement.textContent = question.feedback;
+        feedbackElement.style.color = "#6b7280";
+        feedbackElement.style.fontStyle = "italic";
+        userAnswerElement.appendChild(feedbackElement);
+      }
+      
+      if (question.attempts && question.attempts.length > 1) {
+        const attemptsElement = document.createElement("p");
+        attemptsElement.textContent = `${question.attempts.length} attempts; first answer: ${formatAnswer(question, question.attempts[0].answer)}`;
+        attemptsElement.style.color = "#6b7280";
+        userAnswerElement.appendChild(attemptsElement);
+      }
+      
+      if (question.explanation) {
+        const explanationElement = document.createElement("p");
+        explanationElement.innerHTML = "<strong>Explanation:</strong> ";
+        explanationElement.appendChild(document.createTextNode(question.explanation));
+        explanationElement.style.color = "#4b5563";
+        explanationElement.style.whiteSpace = "pre-line";
+        explanationElement.style.marginTop = "4px";
+        userAnswerElement.appendChild(explanationElement);
       }
       
       questionElement.appendChild(userAnswerElement);
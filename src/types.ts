@@ -1,33 +1,76 @@
+import type {
+  Answer,
+  GradingPolicy,
+  QuestionContent,
+  SectionContent,
+  WorksheetContent
+} from "@shared/worksheetSchema";
+import type { ExtractionStage } from "@shared/extraction";
 
-export type QuestionType = "multiple-choice" | "text" | "fill-blank" | "matching";
+// The worksheet content itself (questions, options, figures, answer keys) is defined
+// next to the schema the extraction functions validate it with
+export type {
+  Answer,
+  AnswerMap,
+  GradingPolicy,
+  Hotspot,
+  Media,
+  MediaBox,
+  NumericAnswer,
+  Option,
+  QuestionType
+} from "@shared/worksheetSchema";
 
-export interface Option {
-  id: string;
-  text: string;
+// One submitted answer; a question keeps every attempt, latest last
+export interface Attempt {
+  answer: Answer;
+  isCorrect: boolean;
+  score: number;
+  feedback?: string;
+  hintsUsed?: number;
+  submittedAt: string;
 }
 
-export interface Question {
-  id: string;
-  type: QuestionType;
-  text: string;
-  options?: Option[];
-  correctAnswer: string | string[];
-  userAnswer?: string | string[];
+export type AttemptMode = "single" | "limited" | "unlimited";
+
+export interface AttemptPolicy {
+  // "single": one try. "limited": up to maxAttempts, each retry worth less.
+  // "unlimited": practice until correct
+  mode: AttemptMode;
+  // Tries allowed in "limited" mode; defaults to 3
+  maxAttempts?: number;
+  // Share of the credit lost per retry; defaults to 0.25 in "limited" mode and 0 otherwise
+  retryPenalty?: number;
+}
+
+// A question plus the student's progress on it
+export interface Question extends QuestionContent {
+  userAnswer?: Answer;
   isCorrect?: boolean;
+  // Fraction of credit earned (0-1) for types that allow partial credit
+  score?: number;
+  // Short note shown with the result, e.g. "Accepted with a typo"
+  feedback?: string;
+  // Hints revealed before the answer was submitted
+  hintsUsed?: number;
+  attempts?: Attempt[];
 }
 
-export interface WorksheetSection {
-  id: string;
-  title: string;
-  instructions: string;
+export interface WorksheetSection extends Omit<SectionContent, "questions"> {
   questions: Question[];
 }
 
-export interface Worksheet {
-  id: string;
-  title: string;
-  description?: string;
+export interface WorksheetSettings {
+  grading?: GradingPolicy;
+  // Share of a question's credit lost for each hint revealed; defaults to 0.25
+  hintPenalty?: number;
+  // Single attempt when left out
+  attempts?: AttemptPolicy;
+}
+
+export interface Worksheet extends Omit<WorksheetContent, "sections"> {
   sections: WorksheetSection[];
+  settings?: WorksheetSettings;
 }
 
 export interface StudentInfo {
@@ -35,8 +78,27 @@ export interface StudentInfo {
   timestamp: string;
 }
 
+export type ProcessingStageState = "pending" | "active" | "done" | "error";
+
+export interface ProcessingStage {
+  stage: ExtractionStage;
+  label: string;
+  state: ProcessingStageState;
+  // The latest report from the extraction function for this stage
+  detail?: string;
+  // Problems in this stage, over every photo; they only stopped processing when the
+  // stage's state is "error"
+  errors: string[];
+}
+
+// What the upload screen shows while a worksheet is processed, built up from the stage
+// events the extraction function streams back
 export interface ProcessingStatus {
-  stage: number;
   message: string;
+  // Which photo is being read, for uploads of several
+  file?: string;
   progress: number;
+  stages: ProcessingStage[];
+  // Set when processing stopped
+  error?: string;
 }
@@ -0,0 +1,84 @@
+import { Answer, AnswerMap, Option, Question } from "@/types";
+
+// True/false questions always use these ids, whatever the worksheet printed
+export const TRUE_FALSE_OPTIONS: Option[] = [
+  { id: "true", text: "True" },
+  { id: "false", text: "False" }
+];
+
+export const getQuestionOptions = (question: Question): Option[] => {
+  if (question.type === "true-false") {
+    return TRUE_FALSE_OPTIONS;
+  }
+  return question.options || [];
+};
+
+export const isAnswerMap = (value: Answer | undefined): value is AnswerMap =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Grouped matching questions pair every item at once; older ones are a radio list per item
+export const isMatchingGroup = (question: Question): boolean =>
+  question.type === "matching" && (question.items?.length || 0) > 0;
+
+// Ordering questions start in the printed order, unless the worksheet happened to
+// print the steps already in order, in which case they start reversed
+export const getInitialOrder = (question: Question): string[] => {
+  const ids = (question.options || []).map(option => option.id);
+  const expected = Array.isArray(question.correctAnswer) ? question.correctAnswer : [];
+  const alreadySorted = ids.length > 1 && ids.every((id, index) => id === expected[index]);
+  return alreadySorted ? [...ids].reverse() : ids;
+};
+
+const withUnit = (question: Question, value: string): string => {
+  const unit = question.numeric?.unit;
+  if (!unit || value.toLowerCase().endsWith(unit.toLowerCase())) return value;
+  return `${value} ${unit}`;
+};
+
+const formatValue = (question: Question, value: string): string => {
+  const option = getQuestionOptions(question).find(opt => opt.id === value);
+  if (option) return option.text;
+  return question.numeric ? withUnit(question, String(value)) : value;
+};
+
+// Turns a stored answer (option ids, raw text) into something readable
+export const formatAnswer = (
+  question: Question,
+  answer: Answer | undefined
+): string => {
+  if (answer === undefined || answer === "") {
+    return "Not answered";
+  }
+
+  // Categorize answers read best grouped: "Nouns: dog, cat; Verbs: run"
+  if (isAnswerMap(answer) && question.type === "categorize") {
+    return (question.options || [])
+      .map(category => {
+        const sorted = (question.items || []).filter(item => answer[item.id] === category.id);
+        return `${category.text}: ${sorted.map(item => item.text).join(", ") || "—"}`;
+      })
+      .join("; ");
+  }
+
+  if (isAnswerMap(answer) && question.type === "label-diagram") {
+    return (question.hotspots || [])
+      .map(hotspot => `${hotspot.id}: ${answer[hotspot.id] || "—"}`)
+      .join("; ");
+  }
+
+  if (isAnswerMap(answer)) {
+    return (question.items || [])
+      .map(item => `${item.text} → ${answer[item.id] ? formatValue(question, answer[item.id]) : "—"}`)
+      .join("; ");
+  }
+
+  if (Array.isArray(answer) && question.type === "ordering") {
+    return answer.map(value => formatValue(question, value)).join(" → ");
+  }
+
+  if (Array.isArray(answer)) {
+    return answer.map(value => formatValue(question, value)).join(", ");
+  }
+
+  return formatValue(question, answer);
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyRetryPenalty,
+  canRetry,
+  DEFAULT_MAX_ATTEMPTS,
+  describeAttemptPolicy,
+  getMaxAttempts
+} from "@/utils/attempts";
+
+const wrong = { isCorrect: false, score: 0 };
+const correct = { isCorrect: true, score: 1 };
+
+describe("getMaxAttempts", () => {
+  it("allows one try unless the worksheet says otherwise", () => {
+    expect(getMaxAttempts()).toBe(1);
+    expect(getMaxAttempts({ mode: "single" })).toBe(1);
+    expect(getMaxAttempts({ mode: "limited" })).toBe(DEFAULT_MAX_ATTEMPTS);
+    expect(getMaxAttempts({ mode: "limited", maxAttempts: 5 })).toBe(5);
+    expect(getMaxAttempts({ mode: "limited", maxAttempts: 0 })).toBe(1);
+    expect(getMaxAttempts({ mode: "unlimited" })).toBe(Infinity);
+  });
+});
+
+describe("canRetry", () => {
+  it("offers a retry for a wrong answer while tries remain", () => {
+    const policy = { mode: "limited" as const, maxAttempts: 2 };
+    expect(canRetry(wrong, 1, policy)).toBe(true);
+    expect(canRetry(wrong, 2, policy)).toBe(false);
+    expect(canRetry(correct, 1, policy)).toBe(false);
+    expect(canRetry(wrong, 1)).toBe(false);
+    expect(canRetry(wrong, 50, { mode: "unlimited" })).toBe(true);
+  });
+});
+
+describe("applyRetryPenalty", () => {
+  it("makes each retry worth less in limited mode", () => {
+    expect(applyRetryPenalty(correct, 1, { mode: "limited" })).toBe(correct);
+    expect(applyRetryPenalty(correct, 3, { mode: "limited" })).toEqual({
+      isCorrect: true,
+      score: 0.5,
+      feedback: "Attempt 3: 50% of the credit available."
+    });
+    expect(applyRetryPenalty(correct, 2, { mode: "limited", retryPenalty: 0.1 }).score).toBe(0.9);
+  });
+
+  it("doesn't penalize practice", () => {
+    expect(applyRetryPenalty(correct, 7, { mode: "unlimited" })).toBe(correct);
+  });
+});
+
+describe("describeAttemptPolicy", () => {
+  it("says nothing for a single try", () => {
+    expect(describeAttemptPolicy()).toBeNull();
+    expect(describeAttemptPolicy({ mode: "single" })).toBeNull();
+  });
+
+  it("tells students how many tries they get and what retries cost", () => {
+    expect(describeAttemptPolicy({ mode: "limited", maxAttempts: 2 })).toBe(
+      "You get 2 tries at each question; each retry is worth 25% less."
+    );
+    expect(describeAttemptPolicy({ mode: "limited", retryPenalty: 0 })).toBe("You get 3 tries at each question.");
+    expect(describeAttemptPolicy({ mode: "unlimited" })).toBe("You can keep trying each question until you get it right.");
+  });
+});
@@ -0,0 +1,60 @@
+import { AttemptPolicy, Question } from "@/types";
+import { GradeResult } from "@/utils/grading";
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+export const getMaxAttempts = (policy?: AttemptPolicy): number => {
+  switch (policy?.mode) {
+    case "limited":
+      return Math.max(1, policy.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+    case "unlimited":
+      return Infinity;
+    default:
+      return 1;
+  }
+};
+
+const getRetryPenalty = (policy?: AttemptPolicy): number =>
+  policy?.retryPenalty ?? (policy?.mode === "limited" ? 0.25 : 0);
+
+// What the student is told about retries before starting, or null for a single try
+export const describeAttemptPolicy = (policy?: AttemptPolicy): string | null => {
+  const maxAttempts = getMaxAttempts(policy);
+  if (maxAttempts === 1) return null;
+  if (!Number.isFinite(maxAttempts)) return "You can keep trying each question until you get it right.";
+
+  const penalty = Math.round(getRetryPenalty(policy) * 100);
+  return `You get ${maxAttempts} tries at each question` +
+    (penalty > 0 ? `; each retry is worth ${penalty}% less.` : ".");
+};
+
+export const getAttemptCount = (question: Question): number =>
+  question.attempts?.length ?? (question.userAnswer !== undefined ? 1 : 0);
+
+// A retry is offered while the answer isn't right and tries remain
+export const canRetry = (
+  result: GradeResult,
+  attemptNumber: number,
+  policy?: AttemptPolicy
+): boolean => !result.isCorrect && attemptNumber < getMaxAttempts(policy);
+
+// Later attempts earn less: with a 0.25 penalty the second try is worth 75%, the third 50%
+export const applyRetryPenalty = (
+  result: GradeResult,
+  attemptNumber: number,
+  policy?: AttemptPolicy
+): GradeResult => {
+  const lost = Math.min(1, getRetryPenalty(policy) * (attemptNumber - 1));
+  if (lost <= 0 || result.score === 0) return result;
+
+  const note = `Attempt ${attemptNumber}: ${Math.round((1 - lost) * 100)}% of the credit available.`;
+
+  return {
+    ...result,
+    score: result.score * (1 - lost),
+    feedback: result.feedback ? `${result.feedback} ${note}` : note
+  };
+};
+
+export const isFirstTryCorrect = (question: Question): boolean =>
+  question.attempts?.length ? question.attempts[0].isCorrect : !!question.isCorrect;
@@ -0,0 +1,22 @@
+import { Question } from "@/types";
+
+// Worksheets mark blanks with a run of underscores: "Voy a _______ el dado."
+const BLANK_PATTERN = /_{3,}/g;
+
+// Text around the blanks; a sentence with N blanks splits into N + 1 parts
+export const splitBlanks = (text: string): string[] => text.split(BLANK_PATTERN);
+
+export const getBlankCount = (question: Question): number =>
+  question.type === "fill-blank" ? (question.text.match(BLANK_PATTERN) || []).length : 0;
+
+// With several blanks, correctAnswer holds one answer per blank instead of alternates
+export const isMultiBlank = (question: Question): boolean => getBlankCount(question) > 1;
+
+export const getBlankAnswers = (question: Question): string[] => {
+  const expected = Array.isArray(question.correctAnswer)
+    ? question.correctAnswer
+    : typeof question.correctAnswer === "string"
+    ? [question.correctAnswer]
+    : [];
+  return Array.from({ length: getBlankCount(question) }, (_, index) => expected[index] || "");
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { applyHintPenalty, DEFAULT_HINT_PENALTY } from "@/utils/grading";
+
+const correct = { isCorrect: true, score: 1 };
+
+describe("applyHintPenalty", () => {
+  it("leaves the result alone without hints", () => {
+    expect(applyHintPenalty(correct, 0)).toBe(correct);
+  });
+
+  it("takes the default share of the credit for each hint", () => {
+    expect(applyHintPenalty(correct, 2)).toEqual({
+      isCorrect: true,
+      score: 1 - 2 * DEFAULT_HINT_PENALTY,
+      feedback: "2 hints used: 50% of the credit deducted."
+    });
+  });
+
+  it("uses the worksheet's penalty, and none when it is 0", () => {
+    expect(applyHintPenalty(correct, 1, 0.1)).toEqual({
+      isCorrect: true,
+      score: 0.9,
+      feedback: "1 hint used: 10% of the credit deducted."
+    });
+    expect(applyHintPenalty(correct, 3, 0)).toBe(correct);
+  });
+
+  it("never deducts more than the credit, or marks a right answer wrong", () => {
+    const result = applyHintPenalty(correct, 5, 0.5);
+    expect(result.score).toBe(0);
+    expect(result.isCorrect).toBe(true);
+  });
+
+  it("scales partial credit and keeps the earlier feedback", () => {
+    expect(applyHintPenalty({ isCorrect: true, score: 0.5, feedback: "Accepted with a typo." }, 1)).toEqual({
+      isCorrect: true,
+      score: 0.375,
+      feedback: "Accepted with a typo. 1 hint used: 25% of the credit deducted."
+    });
+  });
+
+  it("has nothing to deduct from a wrong answer", () => {
+    const wrong = { isCorrect: false, score: 0 };
+    expect(applyHintPenalty(wrong, 2)).toBe(wrong);
+  });
+});
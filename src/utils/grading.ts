@@ -0,0 +1,252 @@
+import { Answer, AnswerMap, GradingPolicy, Question } from "@/types";
+import { isAnswerMap, isMatchingGroup } from "@/utils/answers";
+import { getBlankAnswers, isMultiBlank } from "@/utils/blanks";
+import { getExpectedLabels, getHotspots } from "@/utils/hotspots";
+import { isEquivalentExpression, parseExpression } from "@/utils/math";
+import { isWithinTolerance, parseNumber } from "@/utils/numeric";
+import { matchText, resolveGradingPolicy } from "@/utils/textMatching";
+
+export interface GradeResult {
+  isCorrect: boolean;
+  // Fraction of the question's credit earned, from 0 to 1
+  score: number;
+  feedback?: string;
+}
+
+const toArray = (value: Answer | undefined): string[] => {
+  if (value === undefined || value === "") return [];
+  if (isAnswerMap(value)) return Object.values(value);
+  return Array.isArray(value) ? value : [value];
+};
+
+const fullCredit = (correct: boolean): GradeResult => ({
+  isCorrect: correct,
+  score: correct ? 1 : 0
+});
+
+// Each correct pick earns a share of the credit and each wrong pick takes one away,
+// so ticking every box never scores better than leaving the question alone
+export const gradeMultiSelect = (
+  selected: string[],
+  correctAnswer: Answer
+): GradeResult => {
+  const expected = toArray(correctAnswer);
+  if (expected.length === 0) return fullCredit(selected.length === 0);
+
+  const hits = selected.filter(id => expected.includes(id)).length;
+  const misses = selected.length - hits;
+  const isCorrect = hits === expected.length && misses === 0;
+  const score = Math.max(0, (hits - misses) / expected.length);
+
+  return { isCorrect, score: isCorrect ? 1 : Math.min(score, 1) };
+};
+
+// Every item in the group is worth the same share of the credit. Also grades
+// categorize questions, where several items can share a category.
+export const gradeMatchingGroup = (
+  pairs: AnswerMap,
+  question: Question
+): GradeResult => {
+  const items = question.items || [];
+  const expected = isAnswerMap(question.correctAnswer) ? question.correctAnswer : {};
+  if (items.length === 0) return fullCredit(false);
+
+  const hits = items.filter(item => pairs[item.id] && pairs[item.id] === expected[item.id]).length;
+  return { isCorrect: hits === items.length, score: hits / items.length };
+};
+
+// Length of the longest run of steps the student kept in the right relative order
+const longestCommonSubsequence = (a: string[], b: string[]): number => {
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      lengths[i][j] = a[i - 1] === b[j - 1]
+        ? lengths[i - 1][j - 1] + 1
+        : Math.max(lengths[i - 1][j], lengths[i][j - 1]);
+    }
+  }
+
+  return lengths[a.length][b.length];
+};
+
+export const gradeOrdering = (
+  order: string[],
+  correctAnswer: Answer
+): GradeResult => {
+  const expected = toArray(correctAnswer);
+  if (expected.length === 0) return fullCredit(false);
+
+  const isCorrect =
+    order.length === expected.length &&
+    order.every((id, index) => id === expected[index]);
+  const score = longestCommonSubsequence(order, expected) / expected.length;
+
+  return { isCorrect, score: isCorrect ? 1 : score };
+};
+
+export const gradeNumeric = (answer: string, question: Question): GradeResult => {
+  const settings = question.numeric || {};
+  const value = parseNumber(answer, settings.unit);
+  if (value === null) return fullCredit(false);
+
+  return fullCredit(
+    toArray(question.correctAnswer).some(expected => {
+      const expectedValue = parseNumber(String(expected), settings.unit);
+      return expectedValue !== null && isWithinTolerance(value, expectedValue, settings);
+    })
+  );
+};
+
+// Any algebraically equal form of the expected expression is accepted: "2(x+2)" = "2x+4"
+export const gradeMath = (answer: string, question: Question): GradeResult => {
+  if (!parseExpression(answer)) {
+    return { ...fullCredit(false), feedback: "That couldn't be read as an expression" };
+  }
+
+  return fullCredit(
+    [...toArray(question.correctAnswer), ...(question.acceptedAnswers || [])]
+      .some(expected => isEquivalentExpression(answer, String(expected)))
+  );
+};
+
+export const gradeText = (
+  answer: string,
+  question: Question,
+  worksheetPolicy?: GradingPolicy
+): GradeResult => {
+  const policy = resolveGradingPolicy(worksheetPolicy, question.grading);
+  const candidates = [
+    ...toArray(question.correctAnswer),
+    ...(question.acceptedAnswers || [])
+  ];
+  const match = matchText(answer, candidates, policy);
+
+  if (!match) return fullCredit(false);
+
+  if (match.accentsDiffer) {
+    return {
+      isCorrect: true,
+      score: match.distance > 0 ? policy.typoCredit : 1,
+      feedback: `Accepted, but watch the accents: "${match.expected}"`
+    };
+  }
+
+  if (match.distance > 0) {
+    return {
+      isCorrect: true,
+      score: policy.typoCredit,
+      feedback: `Accepted with a typo. The exact answer is "${match.expected}"`
+    };
+  }
+
+  return fullCredit(true);
+};
+
+// Each blank is graded on its own, with the same text policy as single answers
+export const gradeBlanks = (
+  answers: string[],
+  question: Question,
+  worksheetPolicy?: GradingPolicy
+): GradeResult[] =>
+  getBlankAnswers(question).map((expected, index) =>
+    gradeText(
+      answers[index] || "",
+      { ...question, correctAnswer: expected, acceptedAnswers: undefined },
+      worksheetPolicy
+    )
+  );
+
+// Diagram labels are compared like blanks, one hotspot at a time
+export const gradeLabels = (
+  labels: AnswerMap,
+  question: Question,
+  worksheetPolicy?: GradingPolicy
+): GradeResult[] => {
+  const expected = getExpectedLabels(question);
+  return getHotspots(question).map(hotspot =>
+    gradeText(
+      labels[hotspot.id] || "",
+      { ...question, correctAnswer: expected[hotspot.id] || "", acceptedAnswers: undefined },
+      worksheetPolicy
+    )
+  );
+};
+
+const combineGrades = (grades: GradeResult[], label: string): GradeResult => {
+  if (grades.length === 0) return fullCredit(false);
+
+  const feedback = grades
+    .map((grade, index) => grade.feedback && `${label} ${index + 1}: ${grade.feedback}`)
+    .filter(Boolean)
+    .join(" ");
+
+  return {
+    isCorrect: grades.every(grade => grade.isCorrect),
+    score: grades.reduce((sum, grade) => sum + grade.score, 0) / grades.length,
+    feedback: feedback || undefined
+  };
+};
+
+export const DEFAULT_HINT_PENALTY = 0.25;
+
+// Revealed hints scale the credit down but never turn a right answer into a wrong one
+export const applyHintPenalty = (
+  result: GradeResult,
+  hintsUsed: number,
+  penalty = DEFAULT_HINT_PENALTY
+): GradeResult => {
+  if (hintsUsed <= 0 || penalty <= 0 || result.score === 0) return result;
+
+  const lost = Math.min(1, penalty * hintsUsed);
+  const note = `${hintsUsed} hint${hintsUsed === 1 ? "" : "s"} used: ${Math.round(lost * 100)}% of the credit deducted.`;
+
+  return {
+    ...result,
+    score: result.score * (1 - lost),
+    feedback: result.feedback ? `${result.feedback} ${note}` : note
+  };
+};
+
+export const gradeAnswer = (
+  question: Question,
+  answer: Answer,
+  worksheetPolicy?: GradingPolicy
+): GradeResult => {
+  if (isMatchingGroup(question) || question.type === "categorize") {
+    return gradeMatchingGroup(isAnswerMap(answer) ? answer : {}, question);
+  }
+
+  switch (question.type) {
+    case "multiple-choice":
+    case "matching":
+      return fullCredit(answer === question.correctAnswer);
+    case "true-false":
+      return fullCredit(answer === String(question.correctAnswer).toLowerCase());
+    case "multi-select":
+      return gradeMultiSelect(toArray(answer), question.correctAnswer);
+    case "ordering":
+      return gradeOrdering(toArray(answer), question.correctAnswer);
+    case "numeric":
+      return gradeNumeric(toArray(answer).join(" "), question);
+    case "math":
+      return gradeMath(toArray(answer).join(" "), question);
+    case "fill-blank":
+      if (isMultiBlank(question)) {
+        return combineGrades(gradeBlanks(toArray(answer), question, worksheetPolicy), "Blank");
+      }
+      if (question.numeric) {
+        return gradeNumeric(toArray(answer).join(" "), question);
+      }
+      return gradeText(toArray(answer).join(" "), question, worksheetPolicy);
+    case "label-diagram":
+      return combineGrades(
+        gradeLabels(isAnswerMap(answer) ? answer : {}, question, worksheetPolicy),
+        "Label"
+      );
+    case "text":
+      return gradeText(toArray(answer).join(" "), question, worksheetPolicy);
+    default:
+      return fullCredit(false);
+  }
+};
@@ -0,0 +1,29 @@
+import { AnswerMap, Hotspot, Media, Question } from "@/types";
+import { isAnswerMap } from "@/utils/answers";
+
+// Label-diagram questions put their markers on the first figure attached to the question
+export const getDiagram = (question: Question): Media | undefined => question.media?.[0];
+
+// Figures to show alongside the question, leaving out the diagram being labelled
+export const getExtraMedia = (question: Question): Media[] =>
+  question.type === "label-diagram" ? (question.media || []).slice(1) : question.media || [];
+
+export const getHotspots = (question: Question): Hotspot[] =>
+  question.type === "label-diagram" ? question.hotspots || [] : [];
+
+export const getExpectedLabels = (question: Question): AnswerMap =>
+  isAnswerMap(question.correctAnswer) ? question.correctAnswer : {};
+
+// Hotspots are stored relative to the page, so place them relative to the cropped region.
+// Returns percentages for CSS, or null when the marker falls outside the figure.
+export const getHotspotPosition = (
+  hotspot: Hotspot,
+  diagram?: Media
+): { left: number; top: number } | null => {
+  const box = diagram?.box;
+  if (!box || box.width <= 0 || box.height <= 0) return null;
+
+  const left = ((hotspot.x - box.x) / box.width) * 100;
+  const top = ((hotspot.y - box.y) / box.height) * 100;
+  return left >= 0 && left <= 100 && top >= 0 && top <= 100 ? { left, top } : null;
+};
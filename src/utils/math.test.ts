@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { areEquivalent, evaluateExpression, isEquivalentExpression, parseExpression } from "@/utils/math";
+
+const evaluate = (input: string, variables: Record<string, number> = {}) =>
+  evaluateExpression(parseExpression(input)!, variables);
+
+describe("parseExpression", () => {
+  it("follows the usual precedence, with right-associative powers", () => {
+    expect(evaluate("2 + 3 * 4")).toBe(14);
+    expect(evaluate("2 ^ 3 ^ 2")).toBe(512);
+    expect(evaluate("-2^2")).toBe(-4);
+    expect(evaluate("8 / 4 / 2")).toBe(1);
+  });
+
+  it("reads implied multiplication", () => {
+    expect(evaluate("2x", { x: 3 })).toBe(6);
+    expect(evaluate("2(x+2)", { x: 1 })).toBe(6);
+    expect(evaluate("(x+1)(x-1)", { x: 3 })).toBe(8);
+    expect(evaluate("xy", { x: 2, y: 5 })).toBe(10);
+  });
+
+  it("reads functions, constants and symbols typed on phones", () => {
+    expect(evaluate("sqrt 9")).toBe(3);
+    expect(evaluate("√(16)")).toBe(4);
+    expect(evaluate("2π")).toBeCloseTo(2 * Math.PI);
+    expect(evaluate("x² − 1", { x: 3 })).toBe(8);
+    expect(evaluate("6 ÷ [1 + 2] × 2")).toBe(4);
+    expect(evaluate("x**3", { x: 2 })).toBe(8);
+    expect(evaluate("sqrt(x)^2", { x: 4 })).toBe(4);
+    expect(evaluate("sqrt x^2", { x: -3 })).toBe(3);
+  });
+
+  it("rejects what isn't an expression", () => {
+    expect(parseExpression("")).toBeNull();
+    expect(parseExpression("2 +")).toBeNull();
+    expect(parseExpression("(x + 1")).toBeNull();
+    expect(parseExpression("x + 1)")).toBeNull();
+    expect(parseExpression("x = 2")).toBeNull();
+  });
+});
+
+describe("isEquivalentExpression", () => {
+  it("accepts rearranged and expanded forms", () => {
+    expect(isEquivalentExpression("2x+4", "2(x+2)")).toBe(true);
+    expect(isEquivalentExpression("x^2 - 1", "(x+1)(x-1)")).toBe(true);
+    expect(isEquivalentExpression("(x+1)/2", "x/2 + 0.5")).toBe(true);
+    expect(isEquivalentExpression("ab + b", "b(a+1)")).toBe(true);
+  });
+
+  it("rejects expressions that differ anywhere", () => {
+    expect(isEquivalentExpression("2x+4", "2(x+3)")).toBe(false);
+    expect(isEquivalentExpression("x^2", "2x")).toBe(false);
+    expect(isEquivalentExpression("x", "y")).toBe(false);
+    expect(isEquivalentExpression("2x+", "2x")).toBe(false);
+  });
+
+  it("gives the same answer every time", () => {
+    const a = parseExpression("(x+1)^2")!;
+    const b = parseExpression("x^2 + 2x + 1")!;
+    const results = Array.from({ length: 5 }, () => areEquivalent(a, b));
+    expect(results).toEqual([true, true, true, true, true]);
+  });
+
+  it("skips points outside the domain of either side", () => {
+    // Negative samples make both sides NaN and are left out
+    expect(isEquivalentExpression("sqrt(x)", "√x")).toBe(true);
+    expect(isEquivalentExpression("sqrt(x)^2", "x")).toBe(true);
+    expect(isEquivalentExpression("x/x", "1")).toBe(true);
+  });
+
+  it("doesn't count a match checked at too few points", () => {
+    // Only defined for samples above 2.5, a handful of the 24 drawn from -3 to 3
+    expect(isEquivalentExpression("sqrt(x - 2.5)", "sqrt(x - 2.5)")).toBe(false);
+    // Never defined
+    expect(isEquivalentExpression("sqrt(-x^2 - 1)", "sqrt(-x^2 - 1)")).toBe(false);
+  });
+});
@@ -0,0 +1,269 @@
+// Parses algebra answers like "2x+4", "2(x+2)", "x^2 - 1" or "(x+1)/2" into an
+// expression tree, so answers can be compared by value instead of by spelling.
+// Variables are single letters ("xy" is x times y) and multiplication may be implied.
+
+export type MathNode =
+  | { kind: "number"; value: number }
+  | { kind: "variable"; name: string }
+  | { kind: "constant"; name: "pi" | "e" }
+  | { kind: "negate"; operand: MathNode }
+  | { kind: "binary"; operator: "+" | "-" | "*" | "/" | "^"; left: MathNode; right: MathNode }
+  | { kind: "call"; name: MathFunction; argument: MathNode };
+
+type MathFunction = "sqrt" | "abs" | "sin" | "cos" | "tan" | "ln" | "log";
+
+const FUNCTIONS: Record<MathFunction, (value: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  ln: Math.log,
+  log: Math.log10
+};
+
+const CONSTANTS: Record<"pi" | "e", number> = { pi: Math.PI, e: Math.E };
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "name"; value: string }
+  | { type: "operator"; value: "+" | "-" | "*" | "/" | "^" }
+  | { type: "open" }
+  | { type: "close" };
+
+// Symbols students paste or type on phones, mapped to plain ASCII
+const normalizeInput = (input: string): string =>
+  input
+    .replace(/[−–]/g, "-")
+    .replace(/[×·⋅]/g, "*")
+    .replace(/÷/g, "/")
+    .replace(/π/g, "pi")
+    .replace(/√/g, "sqrt")
+    .replace(/²/g, "^2")
+    .replace(/³/g, "^3")
+    .replace(/[[{]/g, "(")
+    .replace(/[\]}]/g, ")")
+    .replace(/\*\*/g, "^")
+    .toLowerCase();
+
+const tokenize = (input: string): Token[] | null => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    const char = input[index];
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (/[\d.]/.test(char)) {
+      const match = input.slice(index).match(/^(\d+\.?\d*|\.\d+)/);
+      if (!match) return null;
+      tokens.push({ type: "number", value: Number(match[0]) });
+      index += match[0].length;
+    } else if (/[a-z]/.test(char)) {
+      // Function names and pi are read whole; any other run of letters is a product of variables
+      const word = input.slice(index).match(/^[a-z]+/)![0];
+      const known = [...Object.keys(FUNCTIONS), "pi"].find(name => word.startsWith(name));
+      const name = known || char;
+      tokens.push({ type: "name", value: name });
+      index += name.length;
+    } else if ("+-*/^".includes(char)) {
+      tokens.push({ type: "operator", value: char as "+" | "-" | "*" | "/" | "^" });
+      index++;
+    } else if (char === "(") {
+      tokens.push({ type: "open" });
+      index++;
+    } else if (char === ")") {
+      tokens.push({ type: "close" });
+      index++;
+    } else {
+      return null;
+    }
+  }
+
+  return tokens;
+};
+
+// Recursive descent over the usual precedence: sums, products (explicit or implied),
+// unary minus, then right-associative powers
+const parseTokens = (tokens: Token[]): MathNode | null => {
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOperator = (token: Token | undefined, ...operators: string[]) =>
+    token?.type === "operator" && operators.includes(token.value);
+  const startsFactor = (token: Token | undefined) =>
+    token?.type === "number" || token?.type === "name" || token?.type === "open";
+
+  const parseSum = (): MathNode => {
+    let node = parseProduct();
+    while (isOperator(peek(), "+", "-")) {
+      const operator = (tokens[position++] as { value: "+" | "-" }).value;
+      node = { kind: "binary", operator, left: node, right: parseProduct() };
+    }
+    return node;
+  };
+
+  const parseProduct = (): MathNode => {
+    let node = parseUnary();
+    for (;;) {
+      if (isOperator(peek(), "*", "/")) {
+        const operator = (tokens[position++] as { value: "*" | "/" }).value;
+        node = { kind: "binary", operator, left: node, right: parseUnary() };
+      } else if (startsFactor(peek())) {
+        // Implied multiplication: "2x", "2(x+2)", "(x+1)(x-1)"
+        node = { kind: "binary", operator: "*", left: node, right: parsePower() };
+      } else {
+        return node;
+      }
+    }
+  };
+
+  const parseUnary = (): MathNode => {
+    if (isOperator(peek(), "-")) {
+      position++;
+      return { kind: "negate", operand: parseUnary() };
+    }
+    if (isOperator(peek(), "+")) {
+      position++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): MathNode => {
+    const base = parseAtom();
+    if (isOperator(peek(), "^")) {
+      position++;
+      return { kind: "binary", operator: "^", left: base, right: parseUnary() };
+    }
+    return base;
+  };
+
+  const parseAtom = (): MathNode => {
+    const token = tokens[position++];
+    if (!token) throw new Error("Unexpected end of expression");
+
+    if (token.type === "number") {
+      return { kind: "number", value: token.value };
+    }
+
+    if (token.type === "open") {
+      const node = parseSum();
+      if (peek()?.type !== "close") throw new Error("Missing closing parenthesis");
+      position++;
+      return node;
+    }
+
+    if (token.type === "name") {
+      if (token.value in FUNCTIONS) {
+        // "sqrt(x)" or, as typed on phones, "sqrt x" / "sqrt2". A bracketed argument ends
+        // at its bracket, so "sqrt(x)^2" squares the root.
+        const argument = peek()?.type === "open" ? parseAtom() : parsePower();
+        return { kind: "call", name: token.value as MathFunction, argument };
+      }
+      if (token.value === "pi" || token.value === "e") {
+        return { kind: "constant", name: token.value };
+      }
+      return { kind: "variable", name: token.value };
+    }
+
+    throw new Error("Unexpected token");
+  };
+
+  try {
+    const node = parseSum();
+    return position === tokens.length ? node : null;
+  } catch {
+    return null;
+  }
+};
+
+export const parseExpression = (raw: string): MathNode | null => {
+  const tokens = tokenize(normalizeInput(raw.trim()));
+  if (!tokens || tokens.length === 0) return null;
+  return parseTokens(tokens);
+};
+
+export const evaluateExpression = (node: MathNode, variables: Record<string, number>): number => {
+  switch (node.kind) {
+    case "number":
+      return node.value;
+    case "variable":
+      return variables[node.name] ?? NaN;
+    case "constant":
+      return CONSTANTS[node.name];
+    case "negate":
+      return -evaluateExpression(node.operand, variables);
+    case "call":
+      return FUNCTIONS[node.name](evaluateExpression(node.argument, variables));
+    case "binary": {
+      const left = evaluateExpression(node.left, variables);
+      const right = evaluateExpression(node.right, variables);
+      switch (node.operator) {
+        case "+": return left + right;
+        case "-": return left - right;
+        case "*": return left * right;
+        case "/": return left / right;
+        case "^": return Math.pow(left, right);
+      }
+    }
+  }
+};
+
+const collectVariables = (node: MathNode, names: Set<string>): Set<string> => {
+  switch (node.kind) {
+    case "variable":
+      names.add(node.name);
+      break;
+    case "negate":
+      collectVariables(node.operand, names);
+      break;
+    case "call":
+      collectVariables(node.argument, names);
+      break;
+    case "binary":
+      collectVariables(node.left, names);
+      collectVariables(node.right, names);
+      break;
+  }
+  return names;
+};
+
+// Small seeded generator so the same answer always gets the same grade
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+const SAMPLE_COUNT = 24;
+const MIN_CHECKED = 6;
+
+// Two expressions are treated as equal when they agree at many random points.
+// Points where either side is undefined (division by zero, sqrt of a negative)
+// are skipped, but enough of them have to work for the check to count.
+export const areEquivalent = (a: MathNode, b: MathNode): boolean => {
+  const names = [...collectVariables(b, collectVariables(a, new Set()))];
+  const random = createRandom(names.length + 7);
+  let checked = 0;
+
+  for (let sample = 0; sample < SAMPLE_COUNT; sample++) {
+    const variables = Object.fromEntries(names.map(name => [name, random() * 6 - 3]));
+    const left = evaluateExpression(a, variables);
+    const right = evaluateExpression(b, variables);
+
+    if (!Number.isFinite(left) || !Number.isFinite(right)) continue;
+
+    const allowed = 1e-9 * Math.max(1, Math.abs(left), Math.abs(right));
+    if (Math.abs(left - right) > allowed) return false;
+    checked++;
+  }
+
+  return checked >= MIN_CHECKED;
+};
+
+export const isEquivalentExpression = (answer: string, expected: string): boolean => {
+  const answerNode = parseExpression(answer);
+  const expectedNode = parseExpression(expected);
+  return !!answerNode && !!expectedNode && areEquivalent(answerNode, expectedNode);
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { Question, Worksheet, WorksheetSection } from "@/types";
+import { mergeWorksheets } from "@/utils/merge";
+
+const question = (id: string, text: string, extra: Partial<Question> = {}): Question => ({
+  id,
+  type: "fill-blank",
+  text,
+  correctAnswer: "4",
+  ...extra
+});
+
+const section = (title: string, questions: Question[]): WorksheetSection => ({
+  id: title,
+  title,
+  instructions: "",
+  questions
+});
+
+const photo = (...sections: WorksheetSection[]): Worksheet => ({
+  id: "w",
+  title: "Sums",
+  sections
+});
+
+const questionIds = (worksheet: Worksheet) =>
+  worksheet.sections.map(item => item.questions.map(entry => entry.id));
+
+describe("mergeWorksheets", () => {
+  it("drops questions an earlier photo already showed and continues its section", () => {
+    const merged = mergeWorksheets([
+      photo(section("Part A", [question("1", "2 + 2 = ___"), question("2", "3 + 3 = ___", { correctAnswer: "6" })])),
+      photo(section("part a", [question("3", "3 + 3 =  ___", { correctAnswer: "6" }), question("4", "4 + 4 = ___", { correctAnswer: "8" })]))
+    ]);
+
+    expect(questionIds(merged)).toEqual([["1", "2", "4"]]);
+    expect(merged.sections[0].page).toBe(1);
+  });
+
+  it("keeps a question printed twice on the same photo", () => {
+    const merged = mergeWorksheets([
+      photo(section("Part A", [question("1", "Spell the word you hear.", { correctAnswer: "cat" })])),
+      photo(
+        section("Part B", [question("2", "Say it aloud.", { type: "text" })]),
+        section("Part C", [question("3", "Say it aloud.", { type: "text" })])
+      )
+    ]);
+
+    expect(questionIds(merged)).toEqual([["1"], ["2"], ["3"]]);
+  });
+
+  it("keeps questions with the same wording but another answer or figure", () => {
+    const merged = mergeWorksheets([
+      photo(section("Shapes", [question("1", "What is shown here?", { correctAnswer: "square", media: [{ id: "m1", description: "A square" }] })])),
+      photo(section("Shapes", [
+        question("2", "What is shown here?", { correctAnswer: "circle", media: [{ id: "m2", description: "A circle" }] }),
+        question("3", "What is shown here?", { correctAnswer: "square", media: [{ id: "m3", description: "A square", src: "data:image/jpeg;base64," }] })
+      ]))
+    ]);
+
+    expect(questionIds(merged)).toEqual([["1", "2"]]);
+  });
+});
@@ -0,0 +1,71 @@
+import { Question, Worksheet, WorksheetSection } from "@/types";
+import { UNTITLED_WORKSHEET } from "@shared/worksheetSchema";
+
+// Case, punctuation and spacing differ between two reads of the same printed text
+const normalize = (text = ""): string =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+
+// Worksheets reuse a question's wording with another answer or figure ("What is shown
+// here?"), so those count too. Figures are compared by description, since their crops
+// differ between photos.
+const getQuestionKey = (question: Question): string =>
+  [
+    question.type,
+    question.text,
+    ...(question.options || []).map(option => option.text),
+    JSON.stringify(question.correctAnswer ?? ""),
+    ...(question.media || []).map(media => media.description)
+  ]
+    .map(normalize)
+    .join("|");
+
+// Merges the worksheets read from several photos of one worksheet, in photo order.
+// Each section records the photo it came from as its page. Questions already read from
+// an earlier photo are dropped, so overlapping photos don't repeat them, while repeats
+// on a single photo are kept as printed. A section whose header shows up again on the
+// next photo is continued rather than repeated.
+export const mergeWorksheets = (parts: Worksheet[]): Worksheet => {
+  if (parts.length === 1) return parts[0];
+
+  const seenQuestions = new Set<string>();
+  const sections: WorksheetSection[] = [];
+
+  parts.forEach((part, index) => {
+    const partQuestions: string[] = [];
+
+    part.sections.forEach(section => {
+      const questions = section.questions.filter(question => {
+        const key = getQuestionKey(question);
+        partQuestions.push(key);
+        return !seenQuestions.has(key);
+      });
+      if (questions.length === 0) return;
+
+      const previous = sections[sections.length - 1];
+      if (previous && normalize(previous.title) === normalize(section.title)) {
+        sections[sections.length - 1] = {
+          ...previous,
+          instructions: previous.instructions || section.instructions,
+          media: [...(previous.media || []), ...(section.media || [])],
+          questions: [...previous.questions, ...questions]
+        };
+        return;
+      }
+
+      sections.push({ ...section, page: index + 1, questions });
+    });
+
+    partQuestions.forEach(key => seenQuestions.add(key));
+  });
+
+  const named = parts.find(part => part.title !== UNTITLED_WORKSHEET) || parts[0];
+  const skipped = parts.flatMap(part => part.skipped || []);
+
+  return {
+    ...parts[0],
+    title: named.title,
+    description: parts.find(part => part.description)?.description,
+    sections,
+    skipped: skipped.length ? skipped : undefined
+  };
+};
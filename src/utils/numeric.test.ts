@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { isWithinTolerance, parseNumber } from "@/utils/numeric";
+
+describe("parseNumber", () => {
+  it("reads decimals and scientific notation", () => {
+    expect(parseNumber("0.5")).toBe(0.5);
+    expect(parseNumber(".5")).toBe(0.5);
+    expect(parseNumber("+3")).toBe(3);
+    expect(parseNumber("1.5e3")).toBe(1500);
+    expect(parseNumber("1.5 x 10^3")).toBe(1500);
+    expect(parseNumber("2 × 10^-2")).toBe(0.02);
+  });
+
+  it("reads fractions and mixed numbers", () => {
+    expect(parseNumber("1/2")).toBe(0.5);
+    expect(parseNumber("-3/4")).toBe(-0.75);
+    expect(parseNumber("1 1/2")).toBe(1.5);
+    expect(parseNumber("-2 3/4")).toBe(-2.75);
+    expect(parseNumber("1/0")).toBeNull();
+    expect(parseNumber("1 1/0")).toBeNull();
+  });
+
+  it("tells decimal commas from thousands separators", () => {
+    expect(parseNumber("0,5")).toBe(0.5);
+    expect(parseNumber("3,14")).toBe(3.14);
+    expect(parseNumber("1,000")).toBe(1000);
+    expect(parseNumber("12,345,678")).toBe(12345678);
+    expect(parseNumber("1.234,5")).toBe(1234.5);
+    expect(parseNumber("1,234.5")).toBe(1234.5);
+    expect(parseNumber("1 000")).toBe(1000);
+  });
+
+  it("drops the expected unit and rejects any other", () => {
+    expect(parseNumber("12 cm", "cm")).toBe(12);
+    expect(parseNumber("12cm", "cm")).toBe(12);
+    expect(parseNumber("12 CM.", "cm")).toBe(12);
+    expect(parseNumber("12", "cm")).toBe(12);
+    expect(parseNumber("12 kg", "cm")).toBeNull();
+    expect(parseNumber("12 cm")).toBeNull();
+  });
+
+  it("reads signs, currency and percentages", () => {
+    expect(parseNumber("- 5")).toBe(-5);
+    expect(parseNumber("−5")).toBe(-5);
+    expect(parseNumber("$5")).toBe(5);
+    expect(parseNumber("-$5.50")).toBe(-5.5);
+    expect(parseNumber("5 €")).toBe(5);
+    expect(parseNumber("£1,200")).toBe(1200);
+    expect(parseNumber("50%")).toBe(50);
+    expect(parseNumber("12,5 %")).toBe(12.5);
+  });
+
+  it("rejects what isn't a number", () => {
+    expect(parseNumber("")).toBeNull();
+    expect(parseNumber("$")).toBeNull();
+    expect(parseNumber("%")).toBeNull();
+    expect(parseNumber("five")).toBeNull();
+    expect(parseNumber("1.2.3")).toBeNull();
+    expect(parseNumber("1,2,3")).toBeNull();
+  });
+});
+
+describe("isWithinTolerance", () => {
+  it("needs an exact match by default, give or take float noise", () => {
+    expect(isWithinTolerance(0.1 + 0.2, 0.3)).toBe(true);
+    expect(isWithinTolerance(3.15, 3.14)).toBe(false);
+  });
+
+  it("accepts answers within the absolute tolerance", () => {
+    expect(isWithinTolerance(3.15, 3.14, { tolerance: 0.01 })).toBe(true);
+    expect(isWithinTolerance(3.16, 3.14, { tolerance: 0.01 })).toBe(false);
+  });
+
+  it("accepts answers within the relative tolerance", () => {
+    expect(isWithinTolerance(1010, 1000, { relativeTolerance: 0.01 })).toBe(true);
+    expect(isWithinTolerance(1011, 1000, { relativeTolerance: 0.01 })).toBe(false);
+  });
+
+  it("uses whichever tolerance allows more", () => {
+    expect(isWithinTolerance(1.5, 1, { tolerance: 0.5, relativeTolerance: 0.01 })).toBe(true);
+    expect(isWithinTolerance(995, 1000, { tolerance: 0.5, relativeTolerance: 0.01 })).toBe(true);
+  });
+});
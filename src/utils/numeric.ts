@@ -0,0 +1,93 @@
+// Parses the ways students write numbers: "0.5", ".5", "1/2", "1 1/2", "0,5",
+// "1.5e3", "1.5 x 10^3", "1,000", "- 5", "$5", "5 €", "50%" and a trailing unit like
+// "12 cm". Currency and percent signs are dropped, so "50%" is 50, not 0.5.
+// Returns null when the input isn't a number (or carries the wrong unit).
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const stripUnit = (input: string, unit?: string): string | null => {
+  if (!unit) return input;
+
+  const unitPattern = new RegExp(`\\s*${escapeRegExp(unit.trim())}\\.?$`, "i");
+  return input.replace(unitPattern, "");
+};
+
+// Decides which of "," and "." is the decimal separator and drops the other one
+const normalizeSeparators = (input: string): string => {
+  const lastComma = input.lastIndexOf(",");
+  const lastDot = input.lastIndexOf(".");
+
+  if (lastComma === -1) return input;
+
+  if (lastDot !== -1) {
+    // Both present: whichever comes last is the decimal separator ("1.234,5" or "1,234.5")
+    return lastComma > lastDot
+      ? input.replace(/\./g, "").replace(",", ".")
+      : input.replace(/,/g, "");
+  }
+
+  // Only commas: "1,000" and "12,345,678" are thousands, anything else is a decimal comma
+  if (/^-?[1-9]\d{0,2}(,\d{3})+$/.test(input)) {
+    return input.replace(/,/g, "");
+  }
+
+  return input.split(",").length === 2 ? input.replace(",", ".") : input;
+};
+
+const parsePlainNumber = (input: string): number | null => {
+  const normalized = normalizeSeparators(input.replace(/\s+(?=\d{3}\b)/g, ""));
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(normalized)) return null;
+  return Number(normalized);
+};
+
+export const parseNumber = (raw: string, unit?: string): number | null => {
+  let input = stripUnit(raw.trim(), unit);
+  if (!input) return null;
+
+  input = input
+    .replace(/[−–]/g, "-")
+    .replace(/^([-+]?)\s*[$€£¥]\s*/, "$1")
+    .replace(/\s*[$€£¥%]$/, "")
+    .replace(/^([-+])\s+/, "$1")
+    .replace(/\s*[×x*·]\s*10\s*\^\s*([-+]?\d+)$/i, "e$1");
+  if (!input) return null;
+
+  // Mixed number, e.g. "1 1/2" or "-2 3/4"
+  const mixed = input.match(/^([-+]?)(\d+)\s+(\d+)\s*\/\s*(\d+)$/);
+  if (mixed) {
+    const [, sign, whole, numerator, denominator] = mixed;
+    if (Number(denominator) === 0) return null;
+    const value = Number(whole) + Number(numerator) / Number(denominator);
+    return sign === "-" ? -value : value;
+  }
+
+  // Simple fraction, e.g. "1/2" or "-3/4"
+  const fraction = input.match(/^([-+]?[\d.,]+)\s*\/\s*([\d.,]+)$/);
+  if (fraction) {
+    const numerator = parsePlainNumber(fraction[1]);
+    const denominator = parsePlainNumber(fraction[2]);
+    if (numerator === null || !denominator) return null;
+    return numerator / denominator;
+  }
+
+  return parsePlainNumber(input);
+};
+
+export interface NumericTolerance {
+  tolerance?: number;
+  relativeTolerance?: number;
+}
+
+export const isWithinTolerance = (
+  value: number,
+  expected: number,
+  { tolerance = 0, relativeTolerance = 0 }: NumericTolerance = {}
+): boolean => {
+  // A tiny floor so 0.1 + 0.2 style float noise never fails an exact answer
+  const allowed = Math.max(
+    tolerance,
+    relativeTolerance * Math.abs(expected),
+    1e-9 * Math.max(1, Math.abs(expected))
+  );
+  return Math.abs(value - expected) <= allowed;
+};
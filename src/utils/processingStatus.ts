@@ -0,0 +1,115 @@
+import { ProcessingStage, ProcessingStatus } from "@/types";
+import { EXTRACTION_STAGES, ExtractionProgress, ExtractionStage } from "@shared/extraction";
+
+const STAGE_LABELS: Record<ExtractionStage, string> = {
+  received: "Upload received",
+  text: "Reading the PDF text",
+  model: "Extracting questions",
+  parsed: "Reading the results",
+  validated: "Checking the questions"
+};
+
+// Photos are read by the model directly, so they have no text stage
+const getStages = (file?: File): ExtractionStage[] =>
+  EXTRACTION_STAGES.filter(stage => stage !== "text" || file?.type === "application/pdf");
+
+const getFileLabel = (index: number, count: number): string | undefined =>
+  count > 1 ? `Photo ${index + 1} of ${count}` : undefined;
+
+export const createProcessingStatus = (files: File[]): ProcessingStatus => ({
+  message: "Uploading...",
+  file: getFileLabel(0, files.length),
+  progress: 0,
+  stages: getStages(files[0]).map(stage => ({
+    stage,
+    label: STAGE_LABELS[stage],
+    state: "pending",
+    errors: []
+  }))
+});
+
+// Moves on to the next photo: its stages start over, but problems already reported stay
+export const startFile = (status: ProcessingStatus, files: File[], index: number): ProcessingStatus => ({
+  ...status,
+  message: "Uploading...",
+  file: getFileLabel(index, files.length),
+  progress: Math.round((index / files.length) * 100),
+  stages: status.stages.map(stage => ({ ...stage, state: "pending", detail: undefined }))
+});
+
+const withFile = (status: ProcessingStatus, message: string): string =>
+  status.file ? `${status.file}: ${message}` : message;
+
+// A reached stage stays active until the next one arrives, since the model call is the
+// only stage reported when it starts rather than when it's done. Progress counts the
+// stages finished, plus the share of page chunks done while the model is running.
+export const applyProgress = (
+  status: ProcessingStatus,
+  files: File[],
+  index: number,
+  event: ExtractionProgress
+): ProcessingStatus => {
+  const position = status.stages.findIndex(stage => stage.stage === event.stage);
+  if (position < 0) return status;
+
+  const stages = status.stages.map((stage, i): ProcessingStage => {
+    if (i < position) return { ...stage, state: stage.state === "error" ? "error" : "done" };
+    if (i > position) return { ...stage, state: "pending", detail: undefined };
+    return {
+      ...stage,
+      state: "active",
+      detail: event.message,
+      errors: event.error ? [...stage.errors, withFile(status, event.error)] : stage.errors
+    };
+  });
+
+  const partial = event.stage === "model"
+    ? (event.total ? (event.done || 0) / event.total : 0)
+    : 1;
+  const fileProgress = (position + partial) / stages.length;
+
+  return {
+    ...status,
+    message: event.message,
+    progress: Math.round(((index + fileProgress) / files.length) * 100),
+    stages
+  };
+};
+
+const findStage = (status: ProcessingStatus, stage?: ExtractionStage): number => {
+  const position = status.stages.findIndex(item => item.stage === stage);
+  if (position >= 0) return position;
+  // Without a stage from the server, the failure belongs to the one in progress
+  const active = status.stages.findIndex(item => item.state === "active");
+  return active >= 0 ? active : status.stages.findIndex(item => item.state === "pending");
+};
+
+// Marks the stage that failed. The extraction stops there for a single upload; with
+// several photos only that photo is lost.
+export const failStage = (status: ProcessingStatus, message: string, stage?: ExtractionStage): ProcessingStatus => {
+  const position = Math.max(findStage(status, stage), 0);
+
+  return {
+    ...status,
+    stages: status.stages.map((item, i) =>
+      i === position
+        ? { ...item, state: "error", errors: [...item.errors, withFile(status, message)] }
+        : item
+    )
+  };
+};
+
+export const stopProcessing = (status: ProcessingStatus, message: string): ProcessingStatus => ({
+  ...status,
+  message: "Processing stopped",
+  file: undefined,
+  error: message
+});
+
+export const completeProcessing = (status: ProcessingStatus): ProcessingStatus => ({
+  ...status,
+  message: "Worksheet ready",
+  file: undefined,
+  progress: 100,
+  stages: status.stages.map(stage => ({ ...stage, state: stage.state === "error" ? "error" : "done" }))
+});
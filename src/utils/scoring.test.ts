@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { Question, Worksheet } from "@/types";
+import { formatPoints, getQuestionPoints, scoreQuestion, scoreWorksheet } from "@/utils/scoring";
+
+const question = (extra: Partial<Question>): Question => ({
+  id: "q",
+  type: "numeric",
+  text: "2 + 2 = ?",
+  correctAnswer: "4",
+  ...extra
+});
+
+describe("getQuestionPoints", () => {
+  it("defaults to one point, ignoring values that aren't points", () => {
+    expect(getQuestionPoints(question({}))).toBe(1);
+    expect(getQuestionPoints(question({ points: 3 }))).toBe(3);
+    expect(getQuestionPoints(question({ points: 0 }))).toBe(0);
+    expect(getQuestionPoints(question({ points: -2 }))).toBe(1);
+    expect(getQuestionPoints(question({ points: "lots" as unknown as number }))).toBe(1);
+  });
+});
+
+describe("scoreQuestion", () => {
+  it("turns the graded fraction into points", () => {
+    expect(scoreQuestion(question({ points: 3, isCorrect: false, score: 1 / 3 }))).toMatchObject({
+      earned: 1,
+      possible: 3,
+      percent: 33,
+      correct: 0
+    });
+    expect(scoreQuestion(question({ points: 2, isCorrect: true }))).toMatchObject({ earned: 2, correct: 1 });
+  });
+
+  it("gives nothing for an unanswered question and keeps scores between 0 and 1", () => {
+    expect(scoreQuestion(question({})).earned).toBe(0);
+    expect(scoreQuestion(question({ score: 1.5, isCorrect: true })).earned).toBe(1);
+    expect(scoreQuestion(question({ score: -1 })).earned).toBe(0);
+  });
+});
+
+describe("scoreWorksheet", () => {
+  it("adds up sections and the worksheet", () => {
+    const worksheet: Worksheet = {
+      id: "w",
+      title: "Sums",
+      sections: [
+        {
+          id: "a",
+          title: "Part A",
+          instructions: "",
+          questions: [
+            question({ id: "1", isCorrect: true }),
+            question({ id: "2", points: 2, isCorrect: false, score: 0.5 })
+          ]
+        },
+        {
+          id: "b",
+          title: "Part B",
+          instructions: "",
+          questions: [question({ id: "3", points: 0.5, isCorrect: false, score: 2 / 3 })]
+        }
+      ]
+    };
+
+    const score = scoreWorksheet(worksheet);
+    expect(score).toMatchObject({ earned: 2.33, possible: 3.5, percent: 67, correct: 1, total: 3 });
+    expect(score.sections.map(section => [section.title, section.earned, section.possible])).toEqual([
+      ["Part A", 2, 3],
+      ["Part B", 0.33, 0.5]
+    ]);
+  });
+});
+
+describe("formatPoints", () => {
+  it("shows whole points without decimals and drops a trailing zero", () => {
+    expect(formatPoints(2)).toBe("2");
+    expect(formatPoints(1.5)).toBe("1.5");
+    expect(formatPoints(1.33)).toBe("1.33");
+  });
+});
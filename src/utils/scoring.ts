@@ -0,0 +1,75 @@
+import { Question, Worksheet, WorksheetSection } from "@/types";
+import { isFirstTryCorrect } from "@/utils/attempts";
+
+export interface ScoreSummary {
+  earned: number;
+  possible: number;
+  percent: number;
+  // Questions answered fully correctly, out of total
+  correct: number;
+  // Of those, the ones that were right on the first attempt
+  firstTryCorrect: number;
+  total: number;
+}
+
+export interface SectionScore extends ScoreSummary {
+  sectionId: string;
+  title: string;
+}
+
+export interface WorksheetScore extends ScoreSummary {
+  sections: SectionScore[];
+}
+
+// Questions are worth one point unless the worksheet says otherwise
+export const getQuestionPoints = (question: Question): number => {
+  const points = Number(question.points);
+  return question.points !== undefined && Number.isFinite(points) && points >= 0 ? points : 1;
+};
+
+// Keeps fractional credit readable: 1.33333 -> 1.33
+const roundPoints = (points: number) => Math.round(points * 100) / 100;
+
+const summarize = (scores: ScoreSummary[]): ScoreSummary => {
+  const earned = roundPoints(scores.reduce((sum, score) => sum + score.earned, 0));
+  const possible = roundPoints(scores.reduce((sum, score) => sum + score.possible, 0));
+
+  return {
+    earned,
+    possible,
+    percent: possible > 0 ? Math.round((earned / possible) * 100) : 0,
+    correct: scores.reduce((sum, score) => sum + score.correct, 0),
+    firstTryCorrect: scores.reduce((sum, score) => sum + score.firstTryCorrect, 0),
+    total: scores.reduce((sum, score) => sum + score.total, 0)
+  };
+};
+
+// Every question type reports a 0-1 score when graded; unanswered questions earn nothing
+export const scoreQuestion = (question: Question): ScoreSummary => {
+  const possible = getQuestionPoints(question);
+  const fraction = question.score ?? (question.isCorrect ? 1 : 0);
+  const earned = roundPoints(possible * Math.min(Math.max(fraction, 0), 1));
+
+  return {
+    earned,
+    possible,
+    percent: possible > 0 ? Math.round((earned / possible) * 100) : 0,
+    correct: question.isCorrect ? 1 : 0,
+    firstTryCorrect: isFirstTryCorrect(question) ? 1 : 0,
+    total: 1
+  };
+};
+
+export const scoreSection = (section: WorksheetSection): SectionScore => ({
+  sectionId: section.id,
+  title: section.title,
+  ...summarize(section.questions.map(scoreQuestion))
+});
+
+export const scoreWorksheet = (worksheet: Worksheet): WorksheetScore => {
+  const sections = worksheet.sections.map(scoreSection);
+  return { ...summarize(sections), sections };
+};
+
+export const formatPoints = (points: number): string =>
+  Number.isInteger(points) ? String(points) : points.toFixed(2).replace(/0$/, "");
@@ -1,5 +1,7 @@
 
-import { Worksheet, StudentInfo, Question } from "@/types";
+import { Worksheet, StudentInfo, Question, Answer } from "@/types";
+import { GradeResult } from "@/utils/grading";
+import { scoreWorksheet, WorksheetScore } from "@/utils/scoring";
 
 const WORKSHEET_KEY = "quiz_wizard_worksheet";
 const CURRENT_QUESTION_KEY = "quiz_wizard_current_question";
@@ -44,8 +46,9 @@ export const isCompleted = (): boolean => {
 
 export const updateQuestionAnswer = (
   questionId: string, 
-  answer: string | string[], 
-  isCorrect: boolean
+  answer: Answer, 
+  result: GradeResult,
+  hintsUsed = 0
 ): void => {
   const worksheet = getWorksheet();
   if (!worksheet) return;
@@ -59,7 +62,21 @@ export const updateQuestionAnswer = (
         return {
           ...question,
           userAnswer: answer,
-          isCorrect
+          isCorrect: result.isCorrect,
+          score: result.score,
+          feedback: result.feedback,
+          hintsUsed: hintsUsed || undefined,
+          attempts: [
+            ...(question.attempts || []),
+            {
+              answer,
+              isCorrect: result.isCorrect,
+              score: result.score,
+              feedback: result.feedback,
+              hintsUsed: hintsUsed || undefined,
+              submittedAt: new Date().toISOString()
+            }
+          ]
         };
       }
       return question;
@@ -104,9 +121,9 @@ export const getAllQuestions = (): Question[] => {
   return worksheet.sections.flatMap(section => section.questions);
 };
 
-export const getCorrectAnswersCount = (): number => {
-  const questions = getAllQuestions();
-  return questions.filter(q => q.isCorrect).length;
+export const getWorksheetScore = (): WorksheetScore | null => {
+  const worksheet = getWorksheet();
+  return worksheet ? scoreWorksheet(worksheet) : null;
 };
 
 export const clearStorage = (): void => {
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { Question } from "@/types";
+import { gradeText } from "@/utils/grading";
+import {
+  DEFAULT_GRADING_POLICY,
+  editDistance,
+  matchText,
+  resolveGradingPolicy
+} from "@/utils/textMatching";
+
+const fillBlank = (correctAnswer: string, extra: Partial<Question> = {}): Question => ({
+  id: "q1",
+  type: "fill-blank",
+  text: "Subí la _______.",
+  correctAnswer,
+  ...extra
+});
+
+describe("editDistance", () => {
+  it("counts insertions, deletions and substitutions", () => {
+    expect(editDistance("escalera", "escalera")).toBe(0);
+    expect(editDistance("escalra", "escalera")).toBe(1);
+    expect(editDistance("escaleras", "escalera")).toBe(1);
+    expect(editDistance("escalena", "escalera")).toBe(1);
+    expect(editDistance("", "dado")).toBe(4);
+  });
+
+  it("counts swapped neighbouring letters as one typo", () => {
+    expect(editDistance("tirra", "tirar")).toBe(1);
+    expect(editDistance("moivste", "moviste")).toBe(1);
+  });
+});
+
+describe("matchText", () => {
+  const strict = resolveGradingPolicy({ maxEditDistance: 0 });
+
+  it("only matches accent differences when the policy ignores accents", () => {
+    expect(matchText("subi", ["subí"], strict)).toBeNull();
+
+    const match = matchText("subi", ["subí"], { ...strict, ignoreAccents: true });
+    expect(match).toEqual({ expected: "subí", distance: 0, accentsDiffer: true });
+  });
+
+  it("ignores case and punctuation by default", () => {
+    expect(matchText("  Es mi turno! ", ["es mi turno"], DEFAULT_GRADING_POLICY)?.distance).toBe(0);
+  });
+
+  it("allows fewer typos in short answers", () => {
+    expect(matchText("ez", ["es"], DEFAULT_GRADING_POLICY)).toBeNull();
+    expect(matchText("escalra", ["escalera"], DEFAULT_GRADING_POLICY)?.distance).toBe(1);
+  });
+
+  it("prefers the closest accepted answer", () => {
+    expect(matchText("tirar", ["tirra", "tirar"], DEFAULT_GRADING_POLICY)?.expected).toBe("tirar");
+  });
+});
+
+describe("gradeText", () => {
+  it("gives typo credit for answers only accepted because of a typo", () => {
+    const result = gradeText("escalra", fillBlank("escalera"), { typoCredit: 0.5 });
+    expect(result).toMatchObject({ isCorrect: true, score: 0.5 });
+    expect(result.feedback).toContain("escalera");
+  });
+
+  it("gives full credit for accent-only differences with a note", () => {
+    const result = gradeText("subi", fillBlank("subí"), { ignoreAccents: true });
+    expect(result).toMatchObject({ isCorrect: true, score: 1 });
+    expect(result.feedback).toContain("accents");
+  });
+});
+
+describe("resolveGradingPolicy", () => {
+  it("starts from the defaults", () => {
+    expect(resolveGradingPolicy()).toEqual(DEFAULT_GRADING_POLICY);
+  });
+
+  it("lets later policies override earlier ones, skipping unset fields", () => {
+    const worksheet = { ignoreAccents: true, maxEditDistance: 2 };
+    const question = { maxEditDistance: 0, typoCredit: undefined };
+
+    expect(resolveGradingPolicy(worksheet, question)).toEqual({
+      ...DEFAULT_GRADING_POLICY,
+      ignoreAccents: true,
+      maxEditDistance: 0
+    });
+  });
+
+  it("applies a question's override over the worksheet's when grading", () => {
+    const question = fillBlank("subí", { grading: { ignoreAccents: false, maxEditDistance: 0 } });
+    expect(gradeText("subi", question, { ignoreAccents: true }).isCorrect).toBe(false);
+  });
+});
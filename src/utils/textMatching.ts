@@ -0,0 +1,106 @@
+import { GradingPolicy } from "@/types";
+
+// Lenient enough for younger students, strict enough that a different word never passes
+export const DEFAULT_GRADING_POLICY: Required<GradingPolicy> = {
+  caseSensitive: false,
+  ignoreAccents: false,
+  ignorePunctuation: true,
+  maxEditDistance: 1,
+  typoCredit: 1
+};
+
+export const resolveGradingPolicy = (
+  ...policies: (GradingPolicy | undefined)[]
+): Required<GradingPolicy> =>
+  policies.reduce<Required<GradingPolicy>>(
+    (resolved, policy) => ({
+      ...resolved,
+      ...Object.fromEntries(
+        Object.entries(policy || {}).filter(([, value]) => value !== undefined)
+      )
+    }),
+    DEFAULT_GRADING_POLICY
+  );
+
+const stripAccents = (value: string) =>
+  value.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+
+export const normalizeText = (value: string, policy: Required<GradingPolicy>): string => {
+  let normalized = value.normalize("NFC").trim();
+
+  if (!policy.caseSensitive) normalized = normalized.toLowerCase();
+  if (policy.ignoreAccents) normalized = stripAccents(normalized);
+  if (policy.ignorePunctuation) {
+    normalized = normalized.replace(/[\p{P}\p{S}]/gu, " ");
+  }
+
+  return normalized.replace(/\s+/g, " ").trim();
+};
+
+// Edit distance where swapping two neighbouring letters counts as one typo
+export const editDistance = (a: string, b: string): number => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d = Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+
+  for (let i = 0; i < rows; i++) d[i][0] = i;
+  for (let j = 0; j < cols; j++) d[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+};
+
+export interface TextMatch {
+  // The accepted answer the student's text was matched against
+  expected: string;
+  // Typos between the two after normalization; 0 for an exact match
+  distance: number;
+  // True when the match only holds once accents are ignored
+  accentsDiffer: boolean;
+}
+
+// Short answers get fewer typos: never more than a third of the expected length
+const allowedDistance = (expected: string, policy: Required<GradingPolicy>) =>
+  Math.min(policy.maxEditDistance, Math.floor(expected.length / 3));
+
+export const matchText = (
+  answer: string,
+  candidates: string[],
+  policy: Required<GradingPolicy>
+): TextMatch | null => {
+  const normalizedAnswer = normalizeText(answer, policy);
+  const accentPolicy = { ...policy, ignoreAccents: true };
+  let best: TextMatch | null = null;
+
+  for (const candidate of candidates) {
+    const normalizedCandidate = normalizeText(candidate, policy);
+    const distance = editDistance(normalizedAnswer, normalizedCandidate);
+
+    if (distance > allowedDistance(normalizedCandidate, policy)) continue;
+
+    if (!best || distance < best.distance) {
+      best = {
+        expected: candidate,
+        distance,
+        accentsDiffer:
+          normalizeText(answer, { ...policy, ignoreAccents: false }) !==
+            normalizeText(candidate, { ...policy, ignoreAccents: false }) &&
+          normalizeText(answer, accentPolicy) === normalizeText(candidate, accentPolicy)
+      };
+    }
+
+    if (distance === 0) break;
+  }
+
+  return best;
+};
@@ -0,0 +1,458 @@
+// Turns an uploaded worksheet into a validated WorksheetContent. Both the Supabase and
+// the Netlify functions are thin HTTP adapters around extractWorksheet: they parse the
+// request, pass in what their runtime provides (model provider, id generator, PDF
+// reader) and send back the ExtractionResponse or an ExtractionErrorResponse.
+import { cacheVersion, hashBytes, hashPdfText, type CacheKey, type ExtractionCache } from './extractionCache.ts'
+import type { ModelProvider } from './modelProvider.ts'
+import { cleanModelResponse, type RepairTurn } from './prompts.ts'
+import {
+  countQuestions,
+  UNTITLED_WORKSHEET,
+  validateWorksheet,
+  type SectionContent,
+  type WorksheetContent,
+} from './worksheetSchema.ts'
+
+// What every extraction endpoint accepts
+export interface ExtractionRequest {
+  // The photo or PDF as a data URL
+  image: string
+  fileType?: string
+  // Replace any saved result for this worksheet with a fresh extraction
+  refresh?: boolean
+  // Needed with refresh; see authorizeRefresh
+  teacherCode?: string
+}
+
+export interface ExtractionResponse {
+  worksheet: WorksheetContent
+  // Fixes and dropped questions reported by validateWorksheet
+  warnings: string[]
+  // Corrected replies asked of the model, over all photos or page chunks
+  repairs: number
+  // Set when the result was saved from an earlier upload of the same worksheet
+  cached?: boolean
+}
+
+export interface ExtractionErrorResponse {
+  error: string
+  // The stage that failed, when the error was streamed
+  stage?: ExtractionStage
+}
+
+// In the order they're reached. Photos skip `text`; the vision model reads them directly.
+export const EXTRACTION_STAGES = ['received', 'text', 'model', 'parsed', 'validated'] as const
+
+export type ExtractionStage = typeof EXTRACTION_STAGES[number]
+
+// Sent when a stage is reached: `model` when the model call starts, the others when
+// they're done. A repair goes back to `model`.
+export interface ExtractionProgress {
+  stage: ExtractionStage
+  message: string
+  // Calls finished within the stage when it makes several, i.e. chunks of PDF pages
+  done?: number
+  total?: number
+  // Something in this stage failed without stopping the extraction
+  error?: string
+}
+
+// Carries the stage that failed, so a streamed error can say where it happened
+export class ExtractionError extends Error {
+  constructor(message: string, readonly stage: ExtractionStage) {
+    super(message)
+    this.name = 'ExtractionError'
+  }
+}
+
+// A refresh replaces the answer key everyone who uploads the worksheet gets, so the
+// adapters only accept one with the TEACHER_CODE set on the server. Without a code set,
+// saved results can't be replaced.
+export const authorizeRefresh = (request: ExtractionRequest, teacherCode: string | undefined): void => {
+  if (request?.refresh && (!teacherCode || request.teacherCode !== teacherCode)) {
+    throw new ExtractionError('Only a teacher can replace a saved answer key; check the teacher code', 'received')
+  }
+}
+
+export interface ExtractionOptions {
+  provider: ModelProvider
+  createId: () => string
+  // Text of each page, in order. Runtimes without a PDF reader can only take photos.
+  readPdfPages?: (data: Uint8Array) => Promise<string[]>
+  // The function's wall-clock limit, if it has one; repairs that might not finish in
+  // time are skipped
+  timeLimitMs?: number
+  // Defaults to what fits inside a synchronous function call
+  limits?: ExtractionLimits
+  // Results are looked up and saved here when given
+  cache?: ExtractionCache
+  onProgress?: (progress: ExtractionProgress) => void
+}
+
+export interface ExtractionLimits {
+  maxPdfBytes: number
+  // Chunks are extracted in parallel, so this caps the number of model calls per
+  // upload rather than the time taken
+  maxChunks: number
+  // Limit on each chunk's model call; left out to wait as long as the runtime allows
+  textTimeoutMs?: number
+}
+
+// Larger PDFs take too long to read and extract inside the 26 second function timeout,
+// and a chunk still waiting on the model after 20 seconds won't make it either
+export const DEFAULT_LIMITS: ExtractionLimits = { maxPdfBytes: 2 * 1024 * 1024, maxChunks: 6, textTimeoutMs: 20000 }
+
+// Text sent per model call; whole pages are grouped until a chunk would go over
+const MAX_CHUNK_LENGTH = 6000
+// Corrected replies asked for per model call when validation finds problems
+const MAX_REPAIRS = 2
+// A repair is only started when a model call this long still fits in the time limit
+const REPAIR_TIME_MS = 20000
+
+interface ParsedReply {
+  result: Omit<ExtractionResponse, 'repairs'> | null
+  // Everything a repair should fix; empty when the reply was used as is
+  errors: string[]
+}
+
+// Structured output fills fields that don't apply with null; the schema expects them left out
+const dropNulls = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(dropNulls)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value)
+      .filter(([, item]) => item !== null)
+      .map(([key, item]) => [key, dropNulls(item)]))
+  }
+  return value
+}
+
+const describeQuestions = (result: Omit<ExtractionResponse, 'repairs'>): string => {
+  const count = countQuestions(result.worksheet)
+  const fixes = result.warnings.length ? `, ${result.warnings.length} needed fixing or were left out` : ''
+  return `${count} question${count === 1 ? '' : 's'} ready${fixes}`
+}
+
+// Parses and validates one model response, collecting what went wrong with it
+const parseModelOutput = (
+  content: string,
+  createId: () => string,
+  onProgress?: ExtractionOptions['onProgress']
+): ParsedReply => {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(cleanModelResponse(content))
+  } catch (parseError) {
+    console.error('Error parsing AI response:', parseError)
+    console.error('Raw AI response:', content)
+    onProgress?.({ stage: 'parsed', message: 'Reading the reply', error: 'The reply wasn\'t valid JSON' })
+    return { result: null, errors: ['The reply wasn\'t valid JSON'] }
+  }
+  onProgress?.({ stage: 'parsed', message: 'Reply received' })
+
+  // Check the model's output against the shared schema, fixing or dropping what doesn't fit
+  const result = validateWorksheet(dropNulls(parsed), createId)
+  onProgress?.({ stage: 'validated', message: describeQuestions(result) })
+  const errors = countQuestions(result.worksheet) === 0
+    ? [...result.warnings, 'No usable questions were found']
+    : result.warnings
+  return { result, errors }
+}
+
+const isBetter = (next: ParsedReply['result'], best: ParsedReply['result']): boolean =>
+  !best || (!!next && (
+    countQuestions(next.worksheet) > countQuestions(best.worksheet) ||
+    (countQuestions(next.worksheet) === countQuestions(best.worksheet) && next.warnings.length < best.warnings.length)
+  ))
+
+// Asks for a reply, then sends validation errors back for up to MAX_REPAIRS corrected
+// ones. The best reply is kept, so a repair that fails or comes back worse loses nothing.
+// Progress is only reported for single calls; page chunks report as they finish.
+const extractWithRepairs = async (
+  ask: (repairs: RepairTurn[]) => Promise<string>,
+  createId: () => string,
+  deadline: number,
+  onProgress?: ExtractionOptions['onProgress']
+): Promise<ExtractionResponse> => {
+  const repairs: RepairTurn[] = []
+  let best: ParsedReply['result'] = null
+
+  for (;;) {
+    let reply: string
+    try {
+      reply = await ask(repairs)
+    } catch (error) {
+      // The first request's errors are the caller's; a failed repair just ends the loop
+      if (repairs.length === 0) {
+        throw new ExtractionError(error instanceof Error ? error.message : String(error), 'model')
+      }
+      console.error('Repair request failed:', error)
+      onProgress?.({ stage: 'model', message: 'Fixing the reply', error: `The repair failed (${error instanceof Error ? error.message : error})` })
+      break
+    }
+
+    const { result, errors } = parseModelOutput(reply, createId, onProgress)
+    if (isBetter(result, best)) best = result
+    if (errors.length === 0 || repairs.length === MAX_REPAIRS || Date.now() + REPAIR_TIME_MS > deadline) break
+
+    console.warn(`Asking for a repair of ${errors.length} problem(s):`, errors)
+    repairs.push({ reply, errors })
+    onProgress?.({ stage: 'model', message: `Asking the model to fix ${errors.length} problem${errors.length === 1 ? '' : 's'}` })
+  }
+
+  if (!best) {
+    throw new ExtractionError('Failed to parse AI response into worksheet format', 'parsed')
+  }
+  return { ...best, repairs: repairs.length }
+}
+
+const isPdf = (request: ExtractionRequest): boolean =>
+  request.fileType === 'application/pdf' || request.image.startsWith('data:application/pdf')
+
+const decodeDataUrl = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
+
+const formatPages = (first: number, last: number): string =>
+  first === last ? `Page ${first}` : `Pages ${first}–${last}`
+
+interface PageChunk {
+  firstPage: number
+  lastPage: number
+  text: string
+}
+
+// Groups consecutive pages into chunks of at most MAX_CHUNK_LENGTH characters, each
+// page marked with its number. Anything left out is described in `skipped`.
+const chunkPages = (pages: string[], maxChunks: number, skipped: string[]): PageChunk[] => {
+  const chunks: PageChunk[] = []
+  let current: PageChunk | null = null
+
+  pages.forEach((pageText, index) => {
+    const page = index + 1
+    let text = pageText.trim()
+    if (!text) {
+      skipped.push(`${formatPages(page, page)} had no selectable text (blank or scanned)`)
+      return
+    }
+    if (text.length > MAX_CHUNK_LENGTH) {
+      skipped.push(`The end of page ${page} was cut off`)
+      text = text.substring(0, MAX_CHUNK_LENGTH)
+    }
+
+    const marked = `--- Page ${page} ---\n${text}`
+    if (current && current.text.length + marked.length <= MAX_CHUNK_LENGTH) {
+      current.lastPage = page
+      current.text += `\n\n${marked}`
+    } else {
+      current = { firstPage: page, lastPage: page, text: marked }
+      chunks.push(current)
+    }
+  })
+
+  if (chunks.length > maxChunks) {
+    const dropped = chunks.splice(maxChunks)
+    skipped.push(`${formatPages(dropped[0].firstPage, dropped[dropped.length - 1].lastPage)} weren't processed because the PDF is too long`)
+  }
+  return chunks
+}
+
+const extractFromImage = (image: string, options: ExtractionOptions, deadline: number): Promise<ExtractionResponse> => {
+  options.onProgress?.({ stage: 'model', message: 'Reading the worksheet' })
+  return extractWithRepairs(
+    repairs => options.provider.extractFromImage(image, repairs),
+    options.createId,
+    deadline,
+    options.onProgress
+  )
+}
+
+// The text of each page, checked to be worth sending to the model
+const readPdf = async (data: Uint8Array, options: ExtractionOptions): Promise<string[]> => {
+  if (!options.readPdfPages) {
+    throw new ExtractionError('PDFs can\'t be read here. Please upload a photo of each page instead.', 'received')
+  }
+
+  const { maxPdfBytes } = options.limits ?? DEFAULT_LIMITS
+  console.log('PDF size:', (data.length / (1024 * 1024)).toFixed(2), 'MB')
+  if (data.length > maxPdfBytes) {
+    throw new ExtractionError(`PDF file too large. Please upload a file smaller than ${Math.round(maxPdfBytes / (1024 * 1024))}MB.`, 'received')
+  }
+
+  let pages: string[]
+  try {
+    pages = await options.readPdfPages(data)
+  } catch (error) {
+    console.error('PDF parsing error:', error)
+    throw new ExtractionError('Failed to read PDF. Please ensure it contains selectable text (not a scanned image).', 'text')
+  }
+
+  const textLength = pages.reduce((total, pageText) => total + pageText.trim().length, 0)
+  console.log('Extracted', pages.length, 'pages,', textLength, 'characters')
+  if (textLength < 50) {
+    throw new ExtractionError('Could not extract readable text from PDF. Please try an image instead.', 'text')
+  }
+  options.onProgress?.({ stage: 'text', message: `Read the text of ${pages.length} page${pages.length === 1 ? '' : 's'}` })
+  return pages
+}
+
+// Extracts each chunk of pages on its own, then merges the sections in page order
+const extractFromPages = async (pages: string[], options: ExtractionOptions, deadline: number): Promise<ExtractionResponse> => {
+  const { maxChunks, textTimeoutMs } = options.limits ?? DEFAULT_LIMITS
+  const skipped: string[] = []
+  const chunks = chunkPages(pages, maxChunks, skipped)
+  let finished = 0
+  options.onProgress?.({ stage: 'model', message: 'Extracting questions', done: 0, total: chunks.length })
+  const results = await Promise.allSettled(chunks.map(chunk => {
+    const pagesLabel = formatPages(chunk.firstPage, chunk.lastPage)
+    const report = (error?: string) => options.onProgress?.({
+      stage: 'model',
+      message: `${pagesLabel} ${error ? 'failed' : 'done'}`,
+      done: ++finished,
+      total: chunks.length,
+      error,
+    })
+
+    const ask = (repairs: RepairTurn[]) => options.provider.extractFromText(chunk.text, repairs, textTimeoutMs)
+    return extractWithRepairs(ask, options.createId, deadline)
+      .then(
+        part => {
+          report()
+          return part
+        },
+        error => {
+          report(`${pagesLabel} couldn't be read (${error.message})`)
+          throw error
+        }
+      )
+  }))
+
+  const warnings: string[] = []
+  let repairs = 0
+  const sections: SectionContent[] = []
+  let title: string | undefined
+  let description: string | undefined
+
+  results.forEach((result, index) => {
+    const { firstPage, lastPage } = chunks[index]
+    const pagesLabel = formatPages(firstPage, lastPage)
+
+    if (result.status === 'rejected') {
+      console.error(`Error extracting ${pagesLabel}:`, result.reason)
+      skipped.push(`${pagesLabel} couldn't be read (${result.reason?.message})`)
+      return
+    }
+
+    const part = result.value
+    repairs += part.repairs
+    warnings.push(...part.warnings.map(warning => `${pagesLabel}: ${warning}`))
+    if (countQuestions(part.worksheet) === 0) return
+
+    title = title || part.worksheet.title
+    description = description || part.worksheet.description
+    sections.push(...part.worksheet.sections.map(section => ({
+      ...section,
+      // Trust the model's page only when it falls inside the pages it was sent
+      page: section.page && section.page >= firstPage && section.page <= lastPage ? section.page : firstPage,
+    })))
+  })
+
+  if (skipped.length) console.warn('Skipped PDF content:', skipped)
+  const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected')
+  if (failed && results.every(result => result.status === 'rejected')) {
+    throw new ExtractionError(`None of the pages could be read (${failed.reason?.message})`, 'model')
+  }
+  options.onProgress?.({ stage: 'parsed', message: `Found ${sections.length} section${sections.length === 1 ? '' : 's'}` })
+
+  const result: ExtractionResponse = {
+    worksheet: {
+      id: options.createId(),
+      title: title ?? UNTITLED_WORKSHEET,
+      description,
+      // Stable sort, so sections from the same page keep the model's order
+      sections: sections.sort((a, b) => (a.page ?? 0) - (b.page ?? 0)),
+      skipped: skipped.length ? skipped : undefined,
+    },
+    warnings,
+    repairs,
+  }
+  options.onProgress?.({ stage: 'validated', message: describeQuestions(result) })
+  return result
+}
+
+// A saved result for the key, or null to extract. A refresh deletes the saved result
+// instead, so the fresh one takes its place. The cache being down never stops an upload.
+const lookUp = async (key: CacheKey, request: ExtractionRequest, options: ExtractionOptions): Promise<ExtractionResponse | null> => {
+  if (!options.cache) return null
+  try {
+    if (request.refresh) {
+      await options.cache.delete(key)
+      return null
+    }
+    const saved = await options.cache.get(key)
+    if (saved) {
+      options.onProgress?.({ stage: 'validated', message: 'Found this worksheet from an earlier upload' })
+    }
+    return saved
+  } catch (error) {
+    console.error('Error reading the extraction cache:', error)
+    return null
+  }
+}
+
+// Saves the result under every key it was looked up by. When another upload of the
+// same worksheet saved first, its result is returned instead, so all of them match.
+const save = async (keys: CacheKey[], result: ExtractionResponse, options: ExtractionOptions): Promise<ExtractionResponse> => {
+  if (!options.cache || keys.length === 0) return result
+  try {
+    const stored = await options.cache.put(keys[0], result)
+    await Promise.all(keys.slice(1).map(key => options.cache?.put(key, stored)))
+    return stored.worksheet.id === result.worksheet.id ? result : { ...stored, cached: true }
+  } catch (error) {
+    console.error('Error saving to the extraction cache:', error)
+    return result
+  }
+}
+
+// The whole extraction: reads the upload, asks the model, validates what comes back.
+// Throws with a message meant for the user when no usable questions were found.
+export const extractWorksheet = async (
+  request: ExtractionRequest,
+  options: ExtractionOptions
+): Promise<ExtractionResponse> => {
+  if (typeof request?.image !== 'string' || !request.image.startsWith('data:')) {
+    throw new ExtractionError('Expected the worksheet as a data URL in "image"', 'received')
+  }
+  options.onProgress?.({ stage: 'received', message: isPdf(request) ? 'PDF received' : 'Photo received' })
+
+  const deadline = Date.now() + (options.timeLimitMs ?? Infinity)
+  const version = cacheVersion(options.provider)
+  const data = decodeDataUrl(request.image)
+  // Photos are turned, cropped and recompressed in the browser, and no two browsers do
+  // that byte for byte alike, so only PDFs, which are sent as picked, are saved
+  const cached = !!options.cache && isPdf(request)
+  const keys: CacheKey[] = cached ? [{ hash: await hashBytes(data), version }] : []
+  const uploaded = keys.length ? await lookUp(keys[0], request, options) : null
+  if (uploaded) return { ...uploaded, cached: true }
+
+  let result: ExtractionResponse
+  if (isPdf(request)) {
+    const pages = await readPdf(data, options)
+    // A re-exported PDF has new bytes but the same text
+    if (cached) {
+      keys.push({ hash: await hashPdfText(pages), version })
+      const saved = await lookUp(keys[1], request, options)
+      if (saved) return { ...await save(keys.slice(0, 1), saved, options), cached: true }
+    }
+    result = await extractFromPages(pages, options, deadline)
+  } else {
+    result = await extractFromImage(request.image, options, deadline)
+  }
+
+  if (result.repairs) console.log('Repairs needed:', result.repairs)
+  if (result.warnings.length) console.warn('Worksheet validation warnings:', result.warnings)
+  if (countQuestions(result.worksheet) === 0) {
+    throw new ExtractionError('No usable questions were found in the worksheet', 'validated')
+  }
+  return save(keys, result, options)
+}
@@ -0,0 +1,97 @@
+// Saved extraction results, so a PDF handed to a whole class is only sent to the model
+// once and every student gets the same answer key. Results are keyed by hashes of the
+// uploaded bytes and of the PDF's text, both computed on the server, and by the prompts,
+// provider and models that made them. They live in the extraction_cache table (see
+// supabase/migrations).
+import type { ExtractionResponse } from './extraction.ts'
+import type { ModelProvider } from './modelProvider.ts'
+import { PROMPT_VERSION } from './prompts.ts'
+
+export interface CacheKey {
+  // SHA-256 of the uploaded bytes or the normalized PDF text, as hex
+  hash: string
+  version: string
+}
+
+export interface ExtractionCache {
+  get(key: CacheKey): Promise<ExtractionResponse | null>
+  // Keeps the first result saved for a key; returns whichever is stored
+  put(key: CacheKey, result: ExtractionResponse): Promise<ExtractionResponse>
+  delete(key: CacheKey): Promise<void>
+}
+
+// Another provider or model reads the same worksheet differently. The grading model
+// doesn't affect extraction, so it's left out.
+export const cacheVersion = ({ name, models }: ModelProvider): string =>
+  [PROMPT_VERSION, name, models.vision, models.text].join(':')
+
+const sha256 = async (data: Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export const hashBytes = (data: Uint8Array): Promise<string> => sha256(data)
+
+// The same worksheet exported twice rarely has identical bytes, but its text only
+// differs in spacing. Pages stay separate, since section page numbers depend on them.
+export const hashPdfText = (pages: string[]): Promise<string> =>
+  sha256(new TextEncoder().encode(pages.map(page => page.normalize('NFC').replace(/\s+/g, ' ').trim()).join('\f')))
+
+export const supabaseExtractionCache = (url: string, serviceKey: string): ExtractionCache => {
+  const endpoint = `${url.replace(/\/+$/, '')}/rest/v1/extraction_cache`
+
+  const query = async <T>(params: string, method = 'GET', body?: unknown, prefer = 'return=representation'): Promise<T[]> => {
+    const response = await fetch(`${endpoint}?${params}`, {
+      method,
+      headers: {
+        'apikey': serviceKey,
+        'Authorization': `Bearer ${serviceKey}`,
+        'Content-Type': 'application/json',
+        'Prefer': prefer,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+
+    if (!response.ok) {
+      console.error('Extraction cache error:', response.status, await response.text())
+      throw new Error('Failed to reach the extraction cache')
+    }
+    return method === 'DELETE' ? [] : response.json()
+  }
+
+  const byKey = ({ hash, version }: CacheKey) =>
+    `hash=eq.${encodeURIComponent(hash)}&version=eq.${encodeURIComponent(version)}`
+
+  const get = async (key: CacheKey) => {
+    const [row] = await query<{ result: ExtractionResponse }>(`${byKey(key)}&select=result`)
+    return row?.result ?? null
+  }
+
+  return {
+    get,
+
+    async put(key, result) {
+      // Uploads of the same worksheet at the same moment race to save; the loser
+      // gets nothing back and reads the winner's result instead
+      const [row] = await query<{ result: ExtractionResponse }>(
+        'select=result',
+        'POST',
+        { ...key, result },
+        'resolution=ignore-duplicates,return=representation'
+      )
+      return row?.result ?? await get(key) ?? result
+    },
+
+    async delete(key) {
+      await query(byKey(key), 'DELETE', undefined, 'return=minimal')
+    },
+  }
+}
+
+// Uses the same SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY as the job store. Without
+// them every upload is extracted afresh.
+export const getExtractionCache = (env: (key: string) => string | undefined): ExtractionCache | undefined => {
+  const url = env('SUPABASE_URL')
+  const serviceKey = env('SUPABASE_SERVICE_ROLE_KEY')
+  return url && serviceKey ? supabaseExtractionCache(url, serviceKey) : undefined
+}
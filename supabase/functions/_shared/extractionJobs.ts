@@ -0,0 +1,329 @@
+// Background extraction jobs, for uploads too slow for a synchronous function call. An
+// upload is stored as a queued job, a worker runs it through extractWorksheet with the
+// time and limits long PDFs need, and clients poll for progress and the result. Jobs
+// live in the extraction_jobs table (see supabase/migrations), reached through PostgREST
+// with the service role key.
+import {
+  ExtractionError,
+  extractWorksheet,
+  type ExtractionLimits,
+  type ExtractionOptions,
+  type ExtractionProgress,
+  type ExtractionRequest,
+  type ExtractionResponse,
+  type ExtractionStage,
+} from './extraction.ts'
+
+export const JOB_STATUSES = ['queued', 'running', 'succeeded', 'failed', 'cancelled'] as const
+
+export type JobStatus = typeof JOB_STATUSES[number]
+
+// What the job API returns
+export interface ExtractionJob {
+  id: string
+  status: JobStatus
+  fileType?: string
+  // The latest stage the worker reported
+  progress?: ExtractionProgress
+  result?: ExtractionResponse
+  error?: string
+  errorStage?: ExtractionStage
+  // Attempts started over the job's life, retries included
+  attempts: number
+  createdAt: string
+  updatedAt: string
+}
+
+// A request the job's state doesn't allow; the adapters answer 404 or 409
+export class JobStateError extends Error {
+  constructor(message: string, readonly reason: 'not-found' | 'conflict') {
+    super(message)
+    this.name = 'JobStateError'
+  }
+}
+
+// Netlify background functions may run for 15 minutes
+export const WORKER_TIME_LIMIT_MS = 15 * 60 * 1000
+// With that much time a PDF can be as large as fits, base64 encoded, in the 6MB request
+// body the job is submitted with, and a slow model call can take minutes. One that hangs
+// is still cut off, so the attempt fails while there's time to retry it.
+export const JOB_LIMITS: ExtractionLimits = {
+  maxPdfBytes: 4 * 1024 * 1024,
+  maxChunks: 20,
+  textTimeoutMs: 3 * 60 * 1000,
+}
+
+// Per run; a job retried by hand gets as many again
+const MAX_ATTEMPTS = 3
+// Multiplied by the tries so far, to give a struggling model endpoint some room
+const RETRY_DELAY_MS = 5000
+// Another attempt is only started with at least this much of the worker's time left
+const MIN_ATTEMPT_TIME_MS = 2 * 60 * 1000
+// A running job is given up on once its worker must have stopped
+const STALE_AFTER_MS = WORKER_TIME_LIMIT_MS + 60 * 1000
+
+export interface JobRow {
+  id: string
+  status: JobStatus
+  file_type: string | null
+  progress: ExtractionProgress | null
+  result: ExtractionResponse | null
+  error: string | null
+  error_stage: ExtractionStage | null
+  attempts: number
+  created_at: string
+  updated_at: string
+  started_at: string | null
+  finished_at: string | null
+}
+
+type JobPatch = Partial<Omit<JobRow, 'id' | 'created_at' | 'updated_at'>> & { image?: null; refresh?: false }
+
+export interface JobStore {
+  create(request: ExtractionRequest): Promise<JobRow>
+  get(id: string): Promise<JobRow | null>
+  // The upload, for the worker; cleared once the job succeeds
+  getRequest(id: string): Promise<ExtractionRequest | null>
+  // Applies the patch only while the job's status is one of `from` and, when given, it's
+  // on that attempt; null when it isn't
+  update(id: string, from: JobStatus[], patch: JobPatch, attempt?: number): Promise<JobRow | null>
+}
+
+// Everything but the upload, which can be megabytes
+const COLUMNS = 'id,status,file_type,progress,result,error,error_stage,attempts,created_at,updated_at,started_at,finished_at'
+
+export const supabaseJobStore = (url: string, serviceKey: string): JobStore => {
+  const endpoint = `${url.replace(/\/+$/, '')}/rest/v1/extraction_jobs`
+
+  const query = async <T>(params: string, method = 'GET', body?: unknown): Promise<T[]> => {
+    const response = await fetch(`${endpoint}?${params}`, {
+      method,
+      headers: {
+        'apikey': serviceKey,
+        'Authorization': `Bearer ${serviceKey}`,
+        'Content-Type': 'application/json',
+        'Prefer': 'return=representation',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+
+    if (!response.ok) {
+      console.error('Job store error:', response.status, await response.text())
+      throw new Error('Failed to reach the job store')
+    }
+    return response.json()
+  }
+
+  const byId = (id: string) => `id=eq.${encodeURIComponent(id)}`
+
+  return {
+    async create(request) {
+      const [row] = await query<JobRow>(`select=${COLUMNS}`, 'POST', {
+        image: request.image,
+        file_type: request.fileType ?? null,
+        refresh: !!request.refresh,
+      })
+      return row
+    },
+
+    async get(id) {
+      const [row] = await query<JobRow>(`${byId(id)}&select=${COLUMNS}`)
+      return row ?? null
+    },
+
+    async getRequest(id) {
+      const [row] = await query<{ image: string | null; file_type: string | null; refresh: boolean }>(
+        `${byId(id)}&select=image,file_type,refresh`
+      )
+      return row?.image ? { image: row.image, fileType: row.file_type ?? undefined, refresh: row.refresh } : null
+    },
+
+    async update(id, from, patch, attempt) {
+      const onAttempt = attempt === undefined ? '' : `&attempts=eq.${attempt}`
+      const [row] = await query<JobRow>(
+        `${byId(id)}&status=in.(${from.join(',')})${onAttempt}&select=${COLUMNS}`,
+        'PATCH',
+        { ...patch, updated_at: new Date().toISOString() }
+      )
+      return row ?? null
+    },
+  }
+}
+
+// SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY; the table isn't readable with the anon key
+export const getJobStore = (env: (key: string) => string | undefined): JobStore => {
+  const url = env('SUPABASE_URL')
+  const serviceKey = env('SUPABASE_SERVICE_ROLE_KEY')
+  if (!url || !serviceKey) {
+    throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required for background jobs')
+  }
+  return supabaseJobStore(url, serviceKey)
+}
+
+const toJob = (row: JobRow): ExtractionJob => ({
+  id: row.id,
+  status: row.status,
+  fileType: row.file_type ?? undefined,
+  progress: row.progress ?? undefined,
+  result: row.result ?? undefined,
+  error: row.error ?? undefined,
+  errorStage: row.error_stage ?? undefined,
+  attempts: row.attempts,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+})
+
+const now = () => new Date().toISOString()
+
+const isJobId = (id: string) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)
+
+export const submitJob = async (store: JobStore, request: ExtractionRequest): Promise<ExtractionJob> => {
+  if (typeof request?.image !== 'string' || !request.image.startsWith('data:')) {
+    throw new ExtractionError('Expected the worksheet as a data URL in "image"', 'received')
+  }
+  return toJob(await store.create(request))
+}
+
+// Jobs whose worker stopped without finishing are marked failed here, so they can be retried
+export const getJob = async (store: JobStore, id: string): Promise<ExtractionJob> => {
+  const row = isJobId(id) ? await store.get(id) : null
+  if (!row) {
+    throw new JobStateError('Job not found', 'not-found')
+  }
+
+  if (row.status === 'running' && row.started_at && Date.now() - Date.parse(row.started_at) > STALE_AFTER_MS) {
+    const failed = await store.update(id, ['running'], {
+      status: 'failed',
+      error: 'The worker stopped before the job finished',
+      error_stage: row.progress?.stage ?? null,
+      finished_at: now(),
+    })
+    if (failed) return toJob(failed)
+  }
+  return toJob(row)
+}
+
+// Only the job's state changes: a running worker carries on with the whole extraction,
+// then finds the job cancelled and drops the result
+export const cancelJob = async (store: JobStore, id: string): Promise<ExtractionJob> => {
+  const current = await getJob(store, id)
+  const cancelled = await store.update(id, ['queued', 'running'], { status: 'cancelled', finished_at: now() })
+  if (!cancelled) {
+    throw new JobStateError(`The job is already ${current.status}`, 'conflict')
+  }
+  return toJob(cancelled)
+}
+
+// Queues a failed or cancelled job again with the upload it was submitted with. Attempts
+// keep counting up, so a worker still busy with an earlier one can't write to the new run.
+// The teacher code was only checked on submit, so a retry reads the saved answer key
+// rather than replacing it.
+export const retryJob = async (store: JobStore, id: string): Promise<ExtractionJob> => {
+  const current = await getJob(store, id)
+  const queued = await store.update(id, ['failed', 'cancelled'], {
+    status: 'queued',
+    progress: null,
+    error: null,
+    error_stage: null,
+    started_at: null,
+    finished_at: null,
+    refresh: false,
+  })
+  if (!queued) {
+    throw new JobStateError(`Only failed or cancelled jobs can be retried; this one is ${current.status}`, 'conflict')
+  }
+  return toJob(queued)
+}
+
+// Records why a job that hasn't finished couldn't run, e.g. when its worker isn't
+// configured. A worker passes its attempt, so it can only fail the run it was given.
+export const failJob = async (store: JobStore, id: string, error: unknown, attempt?: number): Promise<void> => {
+  await store.update(id, ['queued', 'running'], {
+    status: 'failed',
+    error: error instanceof Error ? error.message : String(error),
+    error_stage: error instanceof ExtractionError ? error.stage : null,
+    finished_at: now(),
+  }, attempt)
+}
+
+// Bad uploads and unreadable PDFs fail the same way every time; model calls may not
+const isRetryable = (error: unknown): boolean =>
+  !(error instanceof ExtractionError) || error.stage === 'model' || error.stage === 'parsed'
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Runs a queued job to the end, retrying failures another attempt might fix. Every
+// write checks the job is still running on this worker's attempt, so a cancelled job
+// stays cancelled and a job retried after this worker was given up on isn't touched.
+export const runJob = async (
+  store: JobStore,
+  id: string,
+  options: Omit<ExtractionOptions, 'limits' | 'timeLimitMs' | 'onProgress'>
+): Promise<void> => {
+  const startedAt = Date.now()
+  const [job, request] = await Promise.all([store.get(id), store.getRequest(id)])
+  const firstAttempt = (job?.attempts ?? 0) + 1
+  const claimed = job && request &&
+    await store.update(id, ['queued'], { status: 'running', attempts: firstAttempt, started_at: now() }, job.attempts)
+  if (!request || !claimed) {
+    console.log('Job', id, 'is not waiting to run')
+    return
+  }
+
+  for (let tries = 1; ; tries++) {
+    const attempt = firstAttempt + tries - 1
+    // Progress is saved one write at a time, in order; once a write finds the job
+    // cancelled or taken over, the rest are skipped
+    let saving = Promise.resolve()
+    let stopped = false
+    const onProgress = (progress: ExtractionProgress) => {
+      saving = saving
+        .then(async () => {
+          if (!stopped) stopped = !(await store.update(id, ['running'], { progress }, attempt))
+        })
+        .catch(error => console.error('Error saving job progress:', error))
+    }
+
+    try {
+      const result = await extractWorksheet(request, {
+        ...options,
+        limits: JOB_LIMITS,
+        timeLimitMs: WORKER_TIME_LIMIT_MS - (Date.now() - startedAt),
+        onProgress,
+      })
+      await saving
+
+      const finished = await store.update(id, ['running'], {
+        status: 'succeeded',
+        result,
+        image: null,
+        finished_at: now(),
+      }, attempt)
+      if (!finished) console.log('Job', id, 'was cancelled or taken over; dropping its result')
+      return
+    } catch (error) {
+      await saving
+      const timeLeft = WORKER_TIME_LIMIT_MS - (Date.now() - startedAt)
+
+      if (!stopped && isRetryable(error) && tries < MAX_ATTEMPTS && timeLeft > MIN_ATTEMPT_TIME_MS) {
+        const message = error instanceof Error ? error.message : String(error)
+        console.warn(`Job ${id} attempt ${attempt} failed, retrying:`, message)
+        const retrying = await store.update(id, ['running'], {
+          attempts: attempt + 1,
+          progress: {
+            stage: error instanceof ExtractionError ? error.stage : 'model',
+            message: `Retrying (try ${tries + 1} of ${MAX_ATTEMPTS})`,
+            error: message,
+          },
+        }, attempt)
+        if (!retrying) return
+        await sleep(RETRY_DELAY_MS * tries)
+        continue
+      }
+
+      console.error(`Job ${id} failed:`, error)
+      await failJob(store, id, error, attempt)
+      return
+    }
+  }
+}
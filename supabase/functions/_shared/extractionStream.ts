@@ -0,0 +1,107 @@
+// The streamed form of the extraction endpoint contract, as Server-Sent Events. Clients
+// that send `Accept: text/event-stream` get a `progress` event per stage reached, then
+// one `result` (ExtractionResponse) or `error` (ExtractionErrorResponse) event.
+import {
+  ExtractionError,
+  extractWorksheet,
+  type ExtractionErrorResponse,
+  type ExtractionOptions,
+  type ExtractionProgress,
+  type ExtractionRequest,
+  type ExtractionResponse,
+  type ExtractionStage,
+} from './extraction.ts'
+
+export const EVENT_STREAM = 'text/event-stream'
+
+type ExtractionEvent =
+  | { event: 'progress'; data: ExtractionProgress }
+  | { event: 'result'; data: ExtractionResponse }
+  | { event: 'error'; data: ExtractionErrorResponse }
+
+const formatEvent = ({ event, data }: ExtractionEvent): string =>
+  `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+
+export const wantsEventStream = (accept: string | null | undefined): boolean =>
+  !!accept && accept.includes(EVENT_STREAM)
+
+// Runs the extraction, writing each progress report to the stream as it happens
+export const streamExtraction = (
+  request: ExtractionRequest,
+  options: ExtractionOptions
+): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder()
+  let stage: ExtractionStage = 'received'
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ExtractionEvent) => controller.enqueue(encoder.encode(formatEvent(event)))
+
+      try {
+        const result = await extractWorksheet(request, {
+          ...options,
+          onProgress: progress => {
+            stage = progress.stage
+            send({ event: 'progress', data: progress })
+          },
+        })
+        send({ event: 'result', data: result })
+      } catch (error) {
+        console.error('Error processing worksheet:', error)
+        send({
+          event: 'error',
+          data: {
+            error: error instanceof Error ? error.message : String(error),
+            stage: error instanceof ExtractionError ? error.stage : stage,
+          },
+        })
+      }
+      controller.close()
+    },
+  })
+}
+
+// Reads a stream from streamExtraction, passing on progress as it arrives. Resolves
+// with the result, or throws an ExtractionError naming the stage that failed.
+export const readExtractionStream = async (
+  body: ReadableStream<Uint8Array>,
+  onProgress: (progress: ExtractionProgress) => void
+): Promise<ExtractionResponse> => {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let lastStage: ExtractionStage = 'received'
+
+  for (;;) {
+    const { value, done } = await reader.read()
+    buffer += decoder.decode(value, { stream: !done })
+
+    // Events end with a blank line; anything after the last one is still arriving
+    const blocks = buffer.split('\n\n')
+    buffer = done ? '' : blocks.pop() ?? ''
+
+    for (const block of blocks) {
+      const lines = block.split('\n')
+      const event = lines.find(line => line.startsWith('event: '))?.slice(7)
+      const data = lines.filter(line => line.startsWith('data: ')).map(line => line.slice(6)).join('\n')
+      if (!event || !data) continue
+
+      if (event === 'progress') {
+        const progress: ExtractionProgress = JSON.parse(data)
+        lastStage = progress.stage
+        onProgress(progress)
+      } else if (event === 'result') {
+        await reader.cancel()
+        return JSON.parse(data)
+      } else if (event === 'error') {
+        const { error, stage }: ExtractionErrorResponse = JSON.parse(data)
+        await reader.cancel()
+        throw new ExtractionError(error, stage ?? lastStage)
+      }
+    }
+
+    if (done) {
+      throw new ExtractionError('The connection closed before the worksheet was ready', lastStage)
+    }
+  }
+}
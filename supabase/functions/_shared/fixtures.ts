@@ -0,0 +1,116 @@
+// Canned model replies for the mock provider, written the way the models answer the
+// extraction prompt so they go through the same cleaning and validation as real output.
+
+// Returned for every photo. The figure box covers the middle of the image, so cropping
+// works on whatever photo was uploaded.
+export const IMAGE_WORKSHEET = {
+  title: 'Plants and Photosynthesis',
+  description: 'Practice worksheet (offline sample)',
+  sections: [
+    {
+      title: 'Part A: Check your understanding',
+      instructions: 'Choose or write the best answer.',
+      questions: [
+        {
+          type: 'multiple-choice',
+          text: 'Which part of the plant absorbs water from the soil?',
+          options: [
+            { id: 'a', text: 'Leaves' },
+            { id: 'b', text: 'Roots' },
+            { id: 'c', text: 'Flowers' },
+            { id: 'd', text: 'Stem' },
+          ],
+          correctAnswer: 'b',
+          hints: ['Think about which part is underground.'],
+          explanation: 'Roots take in water and minerals from the soil.',
+        },
+        {
+          type: 'true-false',
+          text: 'Plants need sunlight to make their own food.',
+          correctAnswer: 'true',
+        },
+        {
+          type: 'fill-blank',
+          text: 'Plants take in _______ from the air to make glucose.',
+          correctAnswer: 'carbon dioxide',
+          acceptedAnswers: ['CO2'],
+        },
+        {
+          type: 'numeric',
+          text: 'A plant grew from 12 cm to 15.5 cm. How many centimetres did it grow?',
+          numeric: { tolerance: 0.1, unit: 'cm' },
+          correctAnswer: '3.5',
+        },
+      ],
+    },
+    {
+      title: 'Part B: Explain',
+      instructions: 'Use the diagram to answer.',
+      media: [
+        { description: 'Diagram of a leaf in sunlight', box: { x: 0.25, y: 0.25, width: 0.5, height: 0.5 } },
+      ],
+      questions: [
+        {
+          type: 'matching',
+          text: 'Match each word to its meaning.',
+          items: [
+            { id: '1', text: 'Chlorophyll' },
+            { id: '2', text: 'Stomata' },
+          ],
+          options: [
+            { id: 'a', text: 'Tiny holes that let gases in and out' },
+            { id: 'b', text: 'Green pigment that captures light' },
+          ],
+          correctAnswer: { 1: 'b', 2: 'a' },
+        },
+        {
+          type: 'text',
+          text: 'Explain why leaves are usually wide and flat.',
+          correctAnswer: 'A wide, flat leaf has a large surface area to absorb more sunlight for photosynthesis.',
+          rubric: '1 point for surface area, 1 point for absorbing more light',
+          points: 2,
+        },
+      ],
+    },
+  ],
+}
+
+// Returned for every chunk of PDF text, with each section's page set to the first page
+// in the chunk
+export const TEXT_WORKSHEET = {
+  title: 'Fractions Review',
+  description: 'Practice worksheet (offline sample)',
+  sections: [
+    {
+      title: 'Fractions',
+      instructions: 'Answer each question.',
+      questions: [
+        {
+          type: 'multiple-choice',
+          text: 'Which fraction is equivalent to 1/2?',
+          options: [
+            { id: 'a', text: '2/3' },
+            { id: 'b', text: '3/6' },
+            { id: 'c', text: '1/3' },
+          ],
+          correctAnswer: 'b',
+        },
+        {
+          type: 'numeric',
+          text: 'Write 3/4 as a decimal.',
+          correctAnswer: '0.75',
+        },
+        {
+          type: 'ordering',
+          text: 'Put these fractions in order from smallest to largest.',
+          options: [
+            { id: 'a', text: '1/2' },
+            { id: 'b', text: '1/8' },
+            { id: 'c', text: '1/4' },
+          ],
+          correctAnswer: ['b', 'c', 'a'],
+        },
+      ],
+    },
+  ],
+}
@@ -0,0 +1,314 @@
+// Every model call the functions make goes through a ModelProvider, chosen from the
+// environment by getModelProvider:
+//   MODEL_PROVIDER=openai (default)  OpenAI, needs OPENAI_API_KEY
+//   MODEL_PROVIDER=compatible        any OpenAI-compatible endpoint at MODEL_BASE_URL, e.g. a
+//                                    local Ollama or LM Studio server; MODEL_API_KEY if it needs one,
+//                                    MODEL_STRUCTURED_OUTPUT=true if it supports json_schema replies
+//   MODEL_PROVIDER=mock              canned fixtures and keyword grading, no network or key
+// VISION_MODEL, TEXT_MODEL and GRADING_MODEL override the model used for each task.
+import { IMAGE_WORKSHEET, TEXT_WORKSHEET } from './fixtures.ts'
+import {
+  buildGradingMessages,
+  buildImageMessages,
+  buildTextMessages,
+  buildWorksheetJsonSchema,
+  cleanModelResponse,
+  type ChatMessage,
+  type RepairTurn,
+} from './prompts.ts'
+
+export interface GradeRequest {
+  question: string
+  answer: string
+  // Model answer from the worksheet's answer key
+  modelAnswer?: string
+  // What earns credit, e.g. "1 point for naming photosynthesis, 1 for explaining why"
+  rubric?: string
+  maxPoints?: number
+}
+
+export interface GradeResponse {
+  points: number
+  maxPoints: number
+  feedback: string
+}
+
+export interface TaskModels {
+  vision: string
+  text: string
+  grading: string
+}
+
+export interface ModelProvider {
+  name: string
+  // The model used for each task; saved extraction results are tied to them
+  models: TaskModels
+  // The raw reply to the extraction prompt for a photo (data URL); validated by the caller.
+  // With repairs, the earlier replies and their problems are sent back for a corrected one.
+  extractFromImage(image: string, repairs?: RepairTurn[]): Promise<string>
+  // The same for PDF text, with pages marked "--- Page N ---"; timeoutMs limits the call
+  // when the caller has chunks to fit in a deadline
+  extractFromText(text: string, repairs?: RepairTurn[], timeoutMs?: number): Promise<string>
+  grade(request: GradeRequest): Promise<GradeResponse>
+}
+
+export interface CompatibleProviderConfig {
+  name: string
+  // Up to and including the version, e.g. http://localhost:11434/v1
+  baseUrl: string
+  // Local servers usually don't need one
+  apiKey?: string
+  models: TaskModels
+  // Constrain extraction replies to the worksheet JSON schema; otherwise the JSON is
+  // cut out of whatever text comes back
+  structuredOutput?: boolean
+}
+
+interface CompletionOptions {
+  model: string
+  maxTokens: number
+  temperature: number
+  // Left out to wait as long as the runtime allows
+  timeoutMs?: number
+  responseFormat?: Record<string, unknown>
+}
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1'
+// PDF text and grading don't need the larger model
+const OPENAI_MODELS = { vision: 'gpt-4o', text: 'gpt-4o-mini', grading: 'gpt-4o-mini' }
+
+const VISION_MAX_TOKENS = 4000
+const TEXT_MAX_TOKENS = 2000
+const GRADING_MAX_TOKENS = 300
+
+// Characters of a failed response's body kept in the error
+const ERROR_BODY_LENGTH = 200
+
+// The provider's own message when the error body is JSON, otherwise the start of the body
+const describeError = (body: string): string => {
+  try {
+    const message = JSON.parse(body).error?.message
+    if (typeof message === 'string' && message) return message
+  } catch {
+    // Not JSON
+  }
+  return body.trim().slice(0, ERROR_BODY_LENGTH) || 'no response body'
+}
+
+const clampPoints = (points: number, maxPoints: number) =>
+  Math.min(Math.max(Math.round(points * 100) / 100, 0), maxPoints)
+
+const requestCompletion = async (
+  config: CompatibleProviderConfig,
+  messages: ChatMessage[],
+  { model, maxTokens, temperature, timeoutMs, responseFormat }: CompletionOptions
+): Promise<string> => {
+  const controller = new AbortController()
+  const timeoutId = timeoutMs ? setTimeout(() => controller.abort(), timeoutMs) : undefined
+
+  let response: Response
+  try {
+    response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature,
+        max_tokens: maxTokens,
+        ...(responseFormat ? { response_format: responseFormat } : {}),
+      }),
+      signal: controller.signal,
+    })
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error('Processing timed out')
+    }
+    throw error
+  } finally {
+    clearTimeout(timeoutId)
+  }
+
+  // Gateways in front of the model answer errors with HTML or plain text, so the body is
+  // only parsed once the status says it's a completion
+  const body = await response.text()
+  if (!response.ok) {
+    console.error(`${config.name} API error:`, response.status, body)
+    throw new Error(`The ${config.name} model request failed (${response.status}): ${describeError(body)}`)
+  }
+
+  let data: { choices: { message: { content: string } }[] }
+  try {
+    data = JSON.parse(body)
+  } catch {
+    console.error(`${config.name} API returned a body that isn't JSON:`, body.slice(0, ERROR_BODY_LENGTH))
+    throw new Error(`The ${config.name} model returned a response that isn't JSON`)
+  }
+
+  const content: string = data.choices[0].message.content
+  console.log('AI response received, length:', content.length)
+  return content
+}
+
+const worksheetFormat = (config: CompatibleProviderConfig, vision: boolean) =>
+  config.structuredOutput
+    ? {
+      type: 'json_schema',
+      json_schema: { name: 'worksheet', strict: true, schema: buildWorksheetJsonSchema({ vision }) },
+    }
+    : undefined
+
+// Any server that speaks the chat completions API
+export const compatibleProvider = (config: CompatibleProviderConfig): ModelProvider => ({
+  name: config.name,
+  models: config.models,
+
+  extractFromImage: (image, repairs) =>
+    requestCompletion(config, buildImageMessages(image, config.structuredOutput, repairs), {
+      model: config.models.vision,
+      maxTokens: VISION_MAX_TOKENS,
+      temperature: 0.1,
+      responseFormat: worksheetFormat(config, true),
+    }),
+
+  extractFromText: (text, repairs, timeoutMs) =>
+    requestCompletion(config, buildTextMessages(text, config.structuredOutput, repairs), {
+      model: config.models.text,
+      maxTokens: TEXT_MAX_TOKENS,
+      temperature: 0.1,
+      timeoutMs,
+      responseFormat: worksheetFormat(config, false),
+    }),
+
+  async grade(request) {
+    const maxPoints = request.maxPoints ?? 1
+    const content = await requestCompletion(config, buildGradingMessages(request, maxPoints), {
+      model: config.models.grading,
+      maxTokens: GRADING_MAX_TOKENS,
+      temperature: 0,
+      responseFormat: { type: 'json_object' },
+    })
+
+    let result: { points?: unknown; feedback?: unknown }
+    try {
+      result = JSON.parse(cleanModelResponse(content))
+    } catch {
+      console.error('Error parsing grading response:', content)
+      throw new Error('Failed to grade response')
+    }
+
+    return {
+      points: clampPoints(Number(result.points) || 0, maxPoints),
+      maxPoints,
+      feedback: String(result.feedback || '')
+    }
+  },
+})
+
+export const openAIProvider = (apiKey: string, models: Partial<CompatibleProviderConfig['models']> = {}): ModelProvider =>
+  compatibleProvider({
+    name: 'openai',
+    baseUrl: OPENAI_BASE_URL,
+    apiKey,
+    models: { ...OPENAI_MODELS, ...models },
+    structuredOutput: true,
+  })
+
+const words = (text: string) =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').match(/[a-z0-9]+/g) || []
+
+// Deterministic stand-in for tests and offline development. Extraction always returns
+// the same fixture; grading credits the share of the model answer's key words (four
+// letters or more) that appear in the student's answer.
+export const mockProvider: ModelProvider = {
+  name: 'mock',
+  models: { vision: 'mock', text: 'mock', grading: 'mock' },
+
+  async extractFromImage() {
+    return JSON.stringify(IMAGE_WORKSHEET)
+  },
+
+  async extractFromText(text) {
+    const page = Number(text.match(/--- Page (\d+) ---/)?.[1]) || 1
+    return JSON.stringify({
+      ...TEXT_WORKSHEET,
+      sections: TEXT_WORKSHEET.sections.map(section => ({ ...section, page })),
+    })
+  },
+
+  async grade(request) {
+    const maxPoints = request.maxPoints ?? 1
+    const keywords = [...new Set(words(request.modelAnswer || request.rubric || '').filter(word => word.length >= 4))]
+    const answerWords = new Set(words(request.answer))
+
+    if (keywords.length === 0) {
+      return { points: 0, maxPoints, feedback: 'No model answer to grade against.' }
+    }
+
+    const found = keywords.filter(word => answerWords.has(word))
+    const points = clampPoints((found.length / keywords.length) * maxPoints, maxPoints)
+
+    return {
+      points,
+      maxPoints,
+      feedback: points === maxPoints
+        ? 'Covers everything in the model answer.'
+        : `Mentions ${found.length} of ${keywords.length} key ideas from the model answer.`
+    }
+  },
+}
+
+export const getModelProvider = (env: (key: string) => string | undefined): ModelProvider => {
+  const provider = env('MODEL_PROVIDER') || 'openai'
+  const models = {
+    vision: env('VISION_MODEL'),
+    text: env('TEXT_MODEL'),
+    grading: env('GRADING_MODEL'),
+  }
+
+  switch (provider) {
+    case 'mock':
+      return mockProvider
+
+    case 'compatible': {
+      const baseUrl = env('MODEL_BASE_URL')
+      if (!baseUrl) {
+        throw new Error('MODEL_BASE_URL is required when MODEL_PROVIDER is "compatible"')
+      }
+      // Local servers serve whatever model they've loaded; one name is enough for all tasks
+      const fallback = models.vision || models.text || models.grading
+      if (!fallback) {
+        throw new Error('Set VISION_MODEL, TEXT_MODEL or GRADING_MODEL for the compatible provider')
+      }
+      return compatibleProvider({
+        name: 'compatible',
+        baseUrl,
+        apiKey: env('MODEL_API_KEY'),
+        structuredOutput: env('MODEL_STRUCTURED_OUTPUT') === 'true',
+        models: {
+          vision: models.vision || fallback,
+          text: models.text || fallback,
+          grading: models.grading || fallback,
+        },
+      })
+    }
+
+    case 'openai': {
+      const apiKey = env('OPENAI_API_KEY')
+      if (!apiKey) {
+        throw new Error('OpenAI API key not configured')
+      }
+      return openAIProvider(apiKey, {
+        ...(models.vision ? { vision: models.vision } : {}),
+        ...(models.text ? { text: models.text } : {}),
+        ...(models.grading ? { grading: models.grading } : {}),
+      })
+    }
+
+    default:
+      throw new Error(`Unknown MODEL_PROVIDER "${provider}"; use openai, compatible or mock`)
+  }
+}
@@ -0,0 +1,230 @@
+// Everything sent to the model and the first step of reading its reply. Shared by every
+// provider that talks to a chat completions endpoint.
+import type { GradeRequest } from './modelProvider.ts'
+import { QUESTION_TYPES } from './worksheetSchema.ts'
+
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string | ContentPart[]
+}
+
+export interface ExtractionPromptOptions {
+  // Photos get the figure and diagram fields; PDF text gets page numbers instead
+  vision: boolean
+  // The reply is constrained to buildWorksheetJsonSchema, which has no room for objects
+  // keyed by id, so those answers come back as key/value pairs
+  structured?: boolean
+}
+
+// An earlier reply and the problems validation found in it
+export interface RepairTurn {
+  reply: string
+  errors: string[]
+}
+
+type JsonSchema = Record<string, unknown>
+
+// Part of every saved extraction's key. Bump it whenever the prompts or the reply schema
+// change, so results made with the old ones stop being served.
+export const PROMPT_VERSION = '1'
+
+const MEDIA_EXAMPLE = '{"description": "what the figure shows", "box": {"x": 0.1, "y": 0.2, "width": 0.5, "height": 0.3}}'
+
+const COMMON_RULES = [
+  'For multiple choice questions, include all options with IDs (a, b, c, etc.)',
+  'For fill-in-the-blank questions, the correctAnswer should be the word/phrase that fills the blank',
+  'For true/false questions, use type "true-false", leave out options, and set correctAnswer to "true" or "false"',
+  'For "select all that apply" questions, use type "multi-select", include all options with IDs, and set correctAnswer to an array of every correct option id',
+  'For matching activities, emit ONE question of type "matching" per section: put the left-hand items in "items" with ids (1, 2, 3...), the right-hand choices in "options" with ids (a, b, c...), and set correctAnswer to an object mapping each item id to its option id',
+  'For sorting activities ("sort these into nouns and verbs"), use type "categorize": put the things to sort in "items" with ids (1, 2, 3...), the categories in "options" with ids (a, b, c...), and set correctAnswer to an object mapping each item id to its category id',
+  'For "put these in order" questions, use type "ordering": list the steps in "options" in the order printed on the worksheet, with ids (a, b, c...), and set correctAnswer to an array of option ids in the correct order',
+  'For questions whose answer is a number, use type "numeric", set correctAnswer to the number as a string (e.g. "0.5"), and add "numeric" with a "tolerance" or "relativeTolerance" when the worksheet allows rounding and a "unit" when the answer has one',
+  'For sentences with several blanks, keep one "fill-blank" question, write each blank as _______ in the text, and set correctAnswer to an array with one answer per blank, in order',
+  'For open-ended questions (explain, describe, short answer), use type "text", set correctAnswer to a model answer, and add a "rubric" describing what earns credit',
+  'For algebra questions whose answer is an expression (simplify, expand, factor), use type "math" and set correctAnswer to the expression, e.g. "2(x+2)"',
+  'Copy any hints or worked solutions printed on the worksheet into "hints" and "explanation"; otherwise write one or two short hints that don\'t give the answer away and a one- or two-sentence explanation of the answer',
+]
+
+// Figures and markers can only be located on an image
+const VISION_RULES = [
+  'For any diagram, picture, map or chart that a question or section refers to, add it to "media" with a "box" giving its position as fractions (0-1) of the image width and height, measured from the top-left corner',
+  'For "label the diagram" activities, use type "label-diagram": add the diagram to "media", list every numbered marker or label line in "hotspots" with the number printed on the worksheet as its id and its position as fractions (0-1) of the image width and height, put any word bank in "options", and set correctAnswer to an object mapping each hotspot id to its label text (not an option id)',
+]
+
+const PAGED_RULES = [
+  'The text is split into pages marked "--- Page N ---"; set each section\'s "page" to the page it starts on',
+]
+
+const STRUCTURED_RULES = [
+  'Where these rules ask for correctAnswer as an object mapping ids, give it as a list of {"key": id, "value": answer} pairs instead, and use null for any field that doesn\'t apply',
+]
+
+// Most errors repeat for every question with the same problem; a few are enough to fix them
+const MAX_REPAIR_ERRORS = 10
+
+const extractionTypes = (vision: boolean) => QUESTION_TYPES.filter(type => vision || type !== 'label-diagram')
+
+// The one extraction prompt
+export const buildSystemPrompt = ({ vision, structured }: ExtractionPromptOptions): string => {
+  const types = extractionTypes(vision).join('|')
+  const rules = [
+    ...COMMON_RULES,
+    ...(vision ? VISION_RULES : PAGED_RULES),
+    ...(structured ? STRUCTURED_RULES : []),
+    'Preserve the exact text and formatting from the worksheet',
+  ]
+
+  return `You are a specialized AI trained to analyze educational worksheets and convert them into structured digital formats.
+Extract and return the data in this exact JSON format:
+{
+  "title": "worksheet title",
+  "description": "brief description",
+  "sections": [{
+    "title": "section title",${vision ? '' : `
+    "page": 1,`}
+    "instructions": "section instructions",${vision ? `
+    "media": [${MEDIA_EXAMPLE}] (optional, for figures shared by the whole section),` : ''}
+    "questions": [{
+      "type": "${types}",
+      "text": "question text",
+      "options": [{"id": "a", "text": "option text"}] (for multiple-choice/multi-select/matching/categorize/${vision ? 'label-diagram/' : ''}ordering only),
+      "items": [{"id": "1", "text": "left-hand item or thing to sort"}] (for matching/categorize only),
+      "numeric": {"tolerance": 0.01, "relativeTolerance": 0, "unit": "cm"} (for numeric only),
+      "acceptedAnswers": ["another acceptable answer"] (optional, for fill-blank/text only),
+      "points": 1 (optional, only when the worksheet shows a point value),
+      "rubric": "what earns credit" (for text only),
+      "hints": ["a nudge that doesn't give the answer away"] (optional),
+      "explanation": "why the answer is right, worked step by step" (optional),${vision ? `
+      "media": [${MEDIA_EXAMPLE}] (optional, for a figure this question refers to),
+      "hotspots": [{"id": "1", "x": 0.42, "y": 0.31}] (for label-diagram only),` : ''}
+      "correctAnswer": "correct answer or option id"
+    }]
+  }]
+}
+
+IMPORTANT:
+${rules.map(rule => `- ${rule}`).join('\n')}
+- Return ONLY the JSON object, with no other text`
+}
+
+const nullable = (schema: JsonSchema): JsonSchema => ({ anyOf: [schema, { type: 'null' }] })
+const list = (items: JsonSchema): JsonSchema => ({ type: 'array', items })
+// Strict structured output wants every property listed as required; optional ones are nullable
+const object = (properties: Record<string, JsonSchema>): JsonSchema => ({
+  type: 'object',
+  properties,
+  required: Object.keys(properties),
+  additionalProperties: false,
+})
+
+const STRING: JsonSchema = { type: 'string' }
+const NUMBER: JsonSchema = { type: 'number' }
+const ID_TEXT = object({ id: STRING, text: STRING })
+const MEDIA = object({
+  description: nullable(STRING),
+  box: object({ x: NUMBER, y: NUMBER, width: NUMBER, height: NUMBER }),
+})
+
+// The same shape as the prompt's example, in the subset of JSON Schema that strict
+// structured output accepts. validateWorksheet still checks everything it can't express.
+export const buildWorksheetJsonSchema = ({ vision }: Pick<ExtractionPromptOptions, 'vision'>): JsonSchema => {
+  const question = object({
+    type: { type: 'string', enum: extractionTypes(vision) },
+    text: STRING,
+    options: nullable(list(ID_TEXT)),
+    items: nullable(list(ID_TEXT)),
+    numeric: nullable(object({
+      tolerance: nullable(NUMBER),
+      relativeTolerance: nullable(NUMBER),
+      unit: nullable(STRING),
+    })),
+    acceptedAnswers: nullable(list(STRING)),
+    points: nullable(NUMBER),
+    rubric: nullable(STRING),
+    hints: nullable(list(STRING)),
+    explanation: nullable(STRING),
+    ...(vision ? {
+      media: nullable(list(MEDIA)),
+      hotspots: nullable(list(object({ id: STRING, x: NUMBER, y: NUMBER }))),
+    } : {}),
+    correctAnswer: {
+      description: 'An option id or answer text; a list for multi-select, ordering and multi-blank answers; key/value pairs for matching, categorize and label-diagram',
+      anyOf: [STRING, list(STRING), list(object({ key: STRING, value: STRING }))],
+    },
+  })
+
+  const section = object({
+    title: STRING,
+    instructions: STRING,
+    ...(vision ? { media: nullable(list(MEDIA)) } : { page: nullable({ type: 'integer' }) }),
+    questions: list(question),
+  })
+
+  return object({
+    title: STRING,
+    description: nullable(STRING),
+    sections: list(section),
+  })
+}
+
+// Sends each earlier reply back with what was wrong with it, so the model can correct itself
+const buildRepairMessages = (repairs: RepairTurn[]): ChatMessage[] =>
+  repairs.flatMap(({ reply, errors }) => [
+    { role: 'assistant' as const, content: reply },
+    {
+      role: 'user' as const,
+      content: `That reply had these problems:
+${errors.slice(0, MAX_REPAIR_ERRORS).map(error => `- ${error}`).join('\n')}${errors.length > MAX_REPAIR_ERRORS ? `\n- and ${errors.length - MAX_REPAIR_ERRORS} more like these` : ''}
+
+Sections and questions are numbered from 1. Fix these problems and return the whole corrected worksheet as JSON, with no other text.`,
+    },
+  ])
+
+export const buildImageMessages = (image: string, structured = false, repairs: RepairTurn[] = []): ChatMessage[] => [
+  { role: 'system', content: buildSystemPrompt({ vision: true, structured }) },
+  {
+    role: 'user',
+    content: [
+      { type: 'text', text: 'Analyze this worksheet and convert it into the specified JSON format.' },
+      { type: 'image_url', image_url: { url: image } },
+    ],
+  },
+  ...buildRepairMessages(repairs),
+]
+
+export const buildTextMessages = (text: string, structured = false, repairs: RepairTurn[] = []): ChatMessage[] => [
+  { role: 'system', content: buildSystemPrompt({ vision: false, structured }) },
+  { role: 'user', content: `Extract the worksheet from this text. Return ONLY JSON:\n\n${text}` },
+  ...buildRepairMessages(repairs),
+]
+
+// Models wrap JSON in ```json fences or add a sentence around it; keep the outermost object
+export const cleanModelResponse = (content: string): string => {
+  const unfenced = content.replace(/```(?:json)?\n?/g, '').trim()
+  const start = unfenced.indexOf('{')
+  const end = unfenced.lastIndexOf('}')
+  return start >= 0 && end > start ? unfenced.slice(start, end + 1) : unfenced
+}
+
+export const buildGradingMessages = (request: GradeRequest, maxPoints: number): ChatMessage[] => [
+  {
+    role: 'system',
+    content: `You grade short written answers on school worksheets. Be fair and encouraging.
+            Score the student's answer out of ${maxPoints} points using the rubric and model answer.
+            Judge meaning, not wording, and ignore spelling mistakes unless spelling is what is being tested.
+            Return ONLY JSON: {"points": number, "feedback": "one or two sentences for the student"}`
+  },
+  {
+    role: 'user',
+    content: [
+      `Question: ${request.question}`,
+      request.modelAnswer ? `Model answer: ${request.modelAnswer}` : '',
+      request.rubric ? `Rubric: ${request.rubric}` : '',
+      `Student answer: ${request.answer}`
+    ].filter(Boolean).join('\n')
+  },
+]
@@ -0,0 +1,213 @@
+import { describe, expect, it } from 'vitest'
+import { UNTITLED_WORKSHEET, validateWorksheet } from './worksheetSchema.ts'
+
+const counter = () => {
+  let next = 0
+  return () => `id-${++next}`
+}
+
+const FRUIT = [
+  { id: 'a', text: 'Red apple' },
+  { id: 'b', text: 'Banana' },
+  { id: 'c', text: 'Cherry' },
+]
+
+// Validates a one-section worksheet holding `questions`
+const validate = (questions: unknown[]) => {
+  const { worksheet, warnings } = validateWorksheet(
+    { title: 'Quiz', sections: [{ title: 'Part A', questions }] },
+    counter()
+  )
+  return { questions: worksheet.sections[0]?.questions ?? [], warnings }
+}
+
+// The answer key of a single question, or undefined when it was dropped
+const answerOf = (question: Record<string, unknown>) =>
+  validate([{ text: 'Question?', ...question }]).questions[0]?.correctAnswer
+
+describe('validateWorksheet', () => {
+  it('reads true/false answers written as words, letters or option ids', () => {
+    expect(answerOf({ type: 'true-false', correctAnswer: 'T' })).toBe('true')
+    expect(answerOf({ type: 'true-false', correctAnswer: true })).toBe('true')
+    expect(answerOf({ type: 'true-false', correctAnswer: 'No' })).toBe('false')
+    expect(answerOf({
+      type: 'true-false',
+      options: [{ id: 'a', text: 'True' }, { id: 'b', text: 'False' }],
+      correctAnswer: 'b',
+    })).toBe('false')
+
+    expect(validate([{ type: 'true-false', text: 'Question?', correctAnswer: 'maybe' }]).warnings).toEqual([
+      'Section 1, question 1: skipped, the answer "maybe" isn\'t true or false',
+      'Section 1: skipped, it has no usable questions',
+    ])
+  })
+
+  it('matches a multiple-choice answer by id or option text', () => {
+    expect(answerOf({ type: 'multiple-choice', options: FRUIT, correctAnswer: 'B' })).toBe('b')
+    expect(answerOf({ type: 'multiple-choice', options: FRUIT, correctAnswer: 'red apple' })).toBe('a')
+    expect(answerOf({ type: 'multiple-choice', options: FRUIT, correctAnswer: ['c'] })).toBe('c')
+    expect(answerOf({ type: 'multiple-choice', options: FRUIT, correctAnswer: 'Grape' })).toBeUndefined()
+  })
+
+  it('splits a multi-select answer on commas and semicolons, keeping whole option texts', () => {
+    expect(answerOf({ type: 'multi-select', options: FRUIT, correctAnswer: 'a, c' })).toEqual(['a', 'c'])
+    expect(answerOf({ type: 'multi-select', options: FRUIT, correctAnswer: 'Red apple' })).toEqual(['a'])
+    expect(answerOf({ type: 'multi-select', options: FRUIT, correctAnswer: 'Red apple; Banana' })).toEqual(['a', 'b'])
+    expect(answerOf({ type: 'multi-select', options: FRUIT, correctAnswer: ['b', 'b'] })).toEqual(['b'])
+  })
+
+  it('leaves out multi-select answers that aren\'t options', () => {
+    const { questions, warnings } = validate([
+      { type: 'multi-select', text: 'Question?', options: FRUIT, correctAnswer: ['a', 'Grape'] },
+      { type: 'multi-select', text: 'Question?', options: FRUIT, correctAnswer: 'Grape, Plum' },
+    ])
+
+    expect(questions.map(question => question.correctAnswer)).toEqual([['a']])
+    expect(warnings).toEqual([
+      'Section 1, question 1: answers that aren\'t among the options were left out',
+      'Section 1, question 2: skipped, none of its answers are among the options',
+    ])
+  })
+
+  it('keeps an ordering answer only when it places every option once', () => {
+    expect(answerOf({ type: 'sequence', options: FRUIT, correctAnswer: 'c, a, b' })).toEqual(['c', 'a', 'b'])
+    expect(answerOf({ type: 'ordering', options: FRUIT, correctAnswer: ['c', 'a'] })).toBeUndefined()
+    expect(answerOf({ type: 'ordering', options: FRUIT, correctAnswer: ['c', 'a', 'a'] })).toBeUndefined()
+  })
+
+  it('turns matching answers given in item order or as pairs into a map', () => {
+    const matching = {
+      type: 'matching',
+      items: ['Dog', 'Cat'],
+      options: ['Bark', 'Meow'],
+    }
+
+    expect(answerOf({ ...matching, correctAnswer: ['a', 'b'] })).toEqual({ 1: 'a', 2: 'b' })
+    expect(answerOf({
+      ...matching,
+      correctAnswer: [{ key: 'Cat', value: 'Meow' }, { key: 'Dog', value: 'Bark' }],
+    })).toEqual({ 1: 'a', 2: 'b' })
+
+    const { questions, warnings } = validate([{ ...matching, text: 'Question?', correctAnswer: { 1: 'a', 2: 'Moo' } }])
+    expect(questions[0].correctAnswer).toEqual({ 1: 'a' })
+    expect(warnings).toEqual(['Section 1, question 1: items without a valid match were left out of the answer'])
+  })
+
+  it('answers a matching question without items like a multiple-choice one', () => {
+    expect(answerOf({ type: 'match', options: FRUIT, correctAnswer: 'Cherry' })).toBe('c')
+  })
+
+  it('reads categorize answers grouped by category and drops unsorted items', () => {
+    const { questions, warnings } = validate([{
+      type: 'categorize',
+      text: 'Sort these',
+      items: ['Apple', 'Carrot', 'Rock'],
+      options: [{ id: 'fruit', text: 'Fruit' }, { id: 'veg', text: 'Vegetable' }],
+      correctAnswer: { fruit: ['1'], Vegetable: 'Carrot' },
+    }])
+
+    expect(questions[0].correctAnswer).toEqual({ 1: 'fruit', 2: 'veg' })
+    expect(questions[0].items).toEqual([{ id: '1', text: 'Apple' }, { id: '2', text: 'Carrot' }])
+    expect(warnings).toEqual(['Section 1, question 1: items without a category were left out'])
+  })
+
+  it('labels diagram markers with word-bank text and warns when the diagram is missing', () => {
+    const { questions, warnings } = validate([{
+      type: 'label-diagram',
+      text: 'Label the plant',
+      options: ['Root', 'Leaf'],
+      hotspots: [{ x: 0.5, y: 0.9 }, { x: 0.5, y: 0.2 }, { x: 2, y: 0 }, { x: 0.1, y: 0.1 }],
+      correctAnswer: ['a', 'Leaf'],
+    }])
+
+    expect(questions[0].correctAnswer).toEqual({ 1: 'Root', 2: 'Leaf' })
+    expect(questions[0].hotspots).toEqual([{ id: '1', x: 0.5, y: 0.9 }, { id: '2', x: 0.5, y: 0.2 }])
+    expect(warnings).toEqual([
+      'Section 1, question 1: marker 3 was left out (x: Number must be less than or equal to 1)',
+      'Section 1, question 1: markers without a label were left out',
+      'Section 1, question 1: no diagram was found for it',
+    ])
+  })
+
+  it('keeps text, fill-blank and numeric answers as strings', () => {
+    expect(answerOf({ type: 'short answer', correctAnswer: undefined })).toBe('')
+    expect(answerOf({ type: 'fill-blank', correctAnswer: ['roots', 'leaves'] })).toEqual(['roots', 'leaves'])
+    expect(answerOf({ type: 'fill-blank', correctAnswer: ['', ''] })).toBeUndefined()
+    expect(answerOf({ type: 'numeric', correctAnswer: 12.5 })).toBe('12.5')
+    expect(answerOf({ type: 'math', correctAnswer: ['x', 'y'] })).toBeUndefined()
+  })
+
+  it('drops questions without options or a correct answer', () => {
+    const { questions, warnings } = validate([
+      { type: 'multiple-choice', text: 'No options', correctAnswer: 'a' },
+      { type: 'multiple-choice', text: 'No answer', options: FRUIT },
+      { type: 'essay', text: 'Kept' },
+    ])
+
+    expect(questions.map(question => question.text)).toEqual(['Kept'])
+    expect(warnings).toEqual([
+      'Section 1, question 1: skipped, it has no options',
+      'Section 1, question 2: skipped, it has no correct answer',
+    ])
+  })
+
+  it('drops questions that are empty or of a type it doesn\'t know', () => {
+    const { questions, warnings } = validate([
+      { type: 'mcq', text: '  ', options: FRUIT, correctAnswer: 'a' },
+      { type: 'drawing', text: 'Draw a leaf', correctAnswer: 'leaf' },
+      { type: 'MCQ', text: 'Kept', options: FRUIT, correctAnswer: 'a' },
+    ])
+
+    expect(questions.map(question => question.type)).toEqual(['multiple-choice'])
+    expect(warnings).toEqual([
+      'Section 1, question 1: skipped (text: Is empty)',
+      'Section 1, question 2: skipped, "drawing" isn\'t a question type we support',
+    ])
+  })
+
+  it('fills in missing or repeated ids and leaves out extras that don\'t fit', () => {
+    const { worksheet, warnings } = validateWorksheet({
+      id: 'sheet',
+      sections: [{
+        id: 'sheet',
+        media: [{ description: 'Nowhere' }],
+        questions: [
+          { id: 'q', type: 'text', text: 'One', points: 'two', hints: 'Look closely' },
+          { id: 'q', type: 'multiple-choice', text: 'Two', options: [{ id: 'x', text: 'Yes' }, { id: 'x', text: 'No' }], correctAnswer: 'No' },
+        ],
+      }],
+    }, counter())
+
+    const [section] = worksheet.sections
+    expect(worksheet.id).toBe('sheet')
+    expect(worksheet.title).toBe(UNTITLED_WORKSHEET)
+    expect(section.id).toBe('id-2')
+    expect(section.title).toBe('Section 1')
+    expect(section.media).toEqual([])
+    expect(section.questions.map(question => question.id)).toEqual(['q', 'id-1'])
+    expect(section.questions[0].points).toBeUndefined()
+    expect(section.questions[0].hints).toBeUndefined()
+    expect(section.questions[1].options).toEqual([{ id: 'x', text: 'Yes' }, { id: 'b', text: 'No' }])
+    expect(section.questions[1].correctAnswer).toBe('b')
+    expect(warnings).toEqual(['Section 1: figure 1 was left out (Has no position on the page)'])
+  })
+
+  it('reads questions listed without sections', () => {
+    const { worksheet, warnings } = validateWorksheet({
+      title: 'Quiz',
+      questions: [{ type: 'true-false', text: 'Question?', correctAnswer: 'F' }],
+    }, counter())
+
+    expect(worksheet.sections).toHaveLength(1)
+    expect(worksheet.sections[0].title).toBe('Quiz')
+    expect(warnings).toEqual([])
+  })
+
+  it('never throws on a response that isn\'t a worksheet', () => {
+    expect(validateWorksheet('Sorry, I can\'t read this page.', counter())).toEqual({
+      worksheet: { id: 'id-1', title: UNTITLED_WORKSHEET, sections: [] },
+      warnings: ['The response wasn\'t a worksheet: Expected object, received string'],
+    })
+    expect(validateWorksheet({ title: 'Empty' }, counter()).warnings).toEqual(['No sections were found'])
+  })
+})
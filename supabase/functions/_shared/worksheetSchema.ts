@@ -0,0 +1,552 @@
+// The worksheet model shared by the client and every extraction function, with the
+// runtime schema that model output is checked against. Extractors hand whatever JSON
+// the model produced to validateWorksheet, which fixes what it can, drops questions
+// that can't be answered or graded, and reports each change as a warning.
+import { z } from 'zod'
+
+export const QUESTION_TYPES = [
+  'multiple-choice',
+  'true-false',
+  'multi-select',
+  'text',
+  'fill-blank',
+  'matching',
+  'categorize',
+  'label-diagram',
+  'ordering',
+  'numeric',
+  'math',
+] as const
+
+export type QuestionType = typeof QUESTION_TYPES[number]
+
+export interface Option {
+  id: string
+  text: string
+}
+
+// Pairs a left-hand item id with the id it was matched to
+export type AnswerMap = Record<string, string>
+
+export type Answer = string | string[] | AnswerMap
+
+export interface NumericAnswer {
+  // Accept answers within this absolute distance of the correct value
+  tolerance?: number
+  // ...or within this fraction of it (0.01 = 1%)
+  relativeTolerance?: number
+  // Optional unit students may type after the number, e.g. "cm"
+  unit?: string
+}
+
+export interface GradingPolicy {
+  caseSensitive?: boolean
+  // Treat "subi" and "subí" as the same answer
+  ignoreAccents?: boolean
+  // Ignore punctuation and extra whitespace
+  ignorePunctuation?: boolean
+  // Typos (insertions, deletions, swaps) still accepted as correct
+  maxEditDistance?: number
+  // Credit (0-1) for an answer only accepted because of the typo allowance
+  typoCredit?: number
+}
+
+// Region of the uploaded page, as fractions (0-1) of its width and height
+export interface MediaBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// A diagram, picture or chart the question refers to
+export interface Media {
+  id: string
+  // What the figure shows; used as alt text
+  description?: string
+  // Once cropped, the region the image actually shows
+  box?: MediaBox
+  // Cropped image as a data URL, filled in on the client after extraction
+  src?: string
+}
+
+// A numbered marker on a diagram, positioned like MediaBox as fractions of the page
+export interface Hotspot {
+  id: string
+  x: number
+  y: number
+}
+
+// A question as extracted from the worksheet, before anyone has answered it
+export interface QuestionContent {
+  id: string
+  type: QuestionType
+  text: string
+  options?: Option[]
+  // Left-hand items of a grouped matching question, or the things to sort in a categorize
+  // question; options hold the right-hand side or the categories
+  items?: Option[]
+  correctAnswer: Answer
+  // Points the question is worth; defaults to 1
+  points?: number
+  // Numeric grading settings; also honoured on fill-blank questions
+  numeric?: NumericAnswer
+  // Other answers accepted for text, fill-blank and math questions
+  acceptedAnswers?: string[]
+  // Overrides the worksheet's grading policy for this question
+  grading?: GradingPolicy
+  // What earns credit on an open "text" response; correctAnswer holds a model answer
+  rubric?: string
+  media?: Media[]
+  // Markers to label on the question's first figure; correctAnswer maps each id to its label
+  hotspots?: Hotspot[]
+  // Nudges a student can reveal one at a time before answering
+  hints?: string[]
+  // Worked explanation shown once the question has been answered
+  explanation?: string
+}
+
+export interface SectionContent {
+  id: string
+  title: string
+  instructions: string
+  // Figures shared by every question in the section
+  media?: Media[]
+  // Page of the upload the section starts on, counting from 1
+  page?: number
+  questions: QuestionContent[]
+}
+
+export interface WorksheetContent {
+  id: string
+  title: string
+  description?: string
+  sections: SectionContent[]
+  // Parts of the upload that weren't extracted, e.g. "Pages 9–12 weren't processed"
+  skipped?: string[]
+}
+
+export interface ValidationResult {
+  worksheet: WorksheetContent
+  // One line per fix or dropped item, e.g. 'Section 1, question 2: skipped, ...'
+  warnings: string[]
+}
+
+// Title given to worksheets the model didn't name
+export const UNTITLED_WORKSHEET = 'Untitled worksheet'
+
+// Models write numbers where strings are expected ("points": "2", "id": 1), so text
+// fields take either and come back trimmed
+const text = z.union([z.string(), z.number()]).transform(value => String(value).trim())
+const optionalText = text.optional().catch(undefined)
+const fraction = z.number().min(0).max(1)
+
+type WithOptionalId<T> = Omit<T, 'id'> & { id?: string }
+
+// Extras that are simply left out when they don't fit, rather than failing the question
+const lenient = <T extends z.ZodTypeAny>(schema: T) => schema.optional().catch(undefined)
+
+const optionSchema = z.union([
+  text.transform(value => ({ id: undefined, text: value })),
+  z.object({ id: text.optional(), text }),
+])
+
+const mediaSchema = z.object({
+  id: text.optional(),
+  description: optionalText,
+  box: z.object({ x: fraction, y: fraction, width: fraction, height: fraction }).optional(),
+  src: z.string().optional(),
+}).refine(item => item.box || item.src, 'Has no position on the page')
+
+const hotspotSchema = z.object({ id: text.optional(), x: fraction, y: fraction })
+
+const answerValue = z.union([text, z.boolean().transform(String)])
+
+const mapValue = z.union([answerValue, z.array(answerValue)])
+
+const answerSchema = z.union([
+  answerValue,
+  z.array(answerValue),
+  // Structured output can't describe objects keyed by id, so maps may come as pairs
+  z.array(z.object({ key: text, value: mapValue }))
+    .transform(pairs => Object.fromEntries(pairs.map(({ key, value }) => [key, value]))),
+  z.record(mapValue),
+])
+
+type RawAnswer = z.infer<typeof answerSchema>
+
+const questionSchema = z.object({
+  id: lenient(text),
+  type: text,
+  text: text.pipe(z.string().min(1, 'Is empty')),
+  options: lenient(z.array(z.unknown())),
+  items: lenient(z.array(z.unknown())),
+  correctAnswer: lenient(answerSchema),
+  points: lenient(z.coerce.number().positive()),
+  numeric: lenient(z.object({
+    tolerance: z.number().nonnegative().optional(),
+    relativeTolerance: z.number().nonnegative().optional(),
+    unit: z.string().optional(),
+  })),
+  acceptedAnswers: lenient(z.array(text)),
+  grading: lenient(z.object({
+    caseSensitive: z.boolean().optional(),
+    ignoreAccents: z.boolean().optional(),
+    ignorePunctuation: z.boolean().optional(),
+    maxEditDistance: z.number().int().nonnegative().optional(),
+    typoCredit: z.number().min(0).max(1).optional(),
+  })),
+  rubric: optionalText,
+  media: lenient(z.array(z.unknown())),
+  hotspots: lenient(z.array(z.unknown())),
+  hints: lenient(z.array(text)),
+  explanation: optionalText,
+})
+
+const sectionSchema = z.object({
+  id: lenient(text),
+  title: text.catch(''),
+  instructions: text.catch(''),
+  media: lenient(z.array(z.unknown())),
+  page: lenient(z.coerce.number().int().positive()),
+  questions: z.array(z.unknown()).catch([]),
+})
+
+const worksheetSchema = z.object({
+  id: lenient(text),
+  title: text.pipe(z.string().min(1)).catch(UNTITLED_WORKSHEET),
+  description: optionalText,
+  skipped: lenient(z.array(text)),
+  sections: z.array(z.unknown()).optional().catch(undefined),
+  // Some responses skip sections and list the questions directly
+  questions: z.array(z.unknown()).optional().catch(undefined),
+})
+
+// Names models use for the question types, keyed by their dashed lower-case form
+const TYPE_ALIASES: Record<string, QuestionType> = {
+  'mcq': 'multiple-choice',
+  'single-choice': 'multiple-choice',
+  'true-or-false': 'true-false',
+  'truefalse': 'true-false',
+  'multiple-select': 'multi-select',
+  'multiple-answer': 'multi-select',
+  'select-all': 'multi-select',
+  'checkbox': 'multi-select',
+  'short-answer': 'text',
+  'open-ended': 'text',
+  'essay': 'text',
+  'free-text': 'text',
+  'fill-in-the-blank': 'fill-blank',
+  'fill-in-blank': 'fill-blank',
+  'fill-in': 'fill-blank',
+  'cloze': 'fill-blank',
+  'match': 'matching',
+  'sort': 'categorize',
+  'sorting': 'categorize',
+  'classify': 'categorize',
+  'label': 'label-diagram',
+  'labelling': 'label-diagram',
+  'labeling': 'label-diagram',
+  'order': 'ordering',
+  'sequence': 'ordering',
+  'sequencing': 'ordering',
+  'number': 'numeric',
+  'expression': 'math',
+  'algebra': 'math',
+}
+
+const normalizeType = (type: string): QuestionType | undefined => {
+  const key = type.toLowerCase().replace(/[\s_/]+/g, '-')
+  return (QUESTION_TYPES as readonly string[]).includes(key) ? key as QuestionType : TYPE_ALIASES[key]
+}
+
+const describeIssue = (error: z.ZodError): string => {
+  const issue = error.issues[0]
+  return issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+}
+
+// Parses each entry on its own so one bad option or figure doesn't cost the whole list.
+// The caller names the output type: the client's non-strict build infers every schema
+// field as optional.
+const parseEach = <T>(
+  schema: z.ZodTypeAny,
+  values: unknown[] | undefined,
+  onInvalid: (index: number, error: z.ZodError) => void
+): T[] | undefined => {
+  if (!values) return undefined
+  return values.flatMap((value, index) => {
+    const result = schema.safeParse(value)
+    if (result.success) return [result.data as T]
+    onInvalid(index, result.error)
+    return []
+  })
+}
+
+// Options fall back to a, b, c and items to 1, 2, 3 when an id is missing or repeated
+const assignOptionIds = (
+  options: WithOptionalId<Option>[] | undefined,
+  fallbackId: (index: number) => string
+): Option[] | undefined => {
+  if (!options) return undefined
+  const seen = new Set<string>()
+  return options.map((option, index) => {
+    const id = option.id && !seen.has(option.id) ? option.id : fallbackId(index)
+    seen.add(id)
+    return { id, text: option.text }
+  })
+}
+
+const findOptionId = (options: Option[], value: string): string | undefined => {
+  const wanted = value.trim().toLowerCase()
+  return (options.find(option => option.id.toLowerCase() === wanted) ||
+    options.find(option => option.text.trim().toLowerCase() === wanted))?.id
+}
+
+const isAnswerRecord = (answer: RawAnswer | undefined): answer is Record<string, string | string[]> =>
+  typeof answer === 'object' && answer !== null && !Array.isArray(answer)
+
+// Multi-select and ordering answers sometimes arrive as one "a, c" string instead of an id
+// array. A string naming a whole option is kept as is, since option texts can hold spaces
+// and commas ("Red apple").
+const toList = (answer: RawAnswer | undefined, options: Option[]): string[] => {
+  if (Array.isArray(answer)) return answer
+  if (typeof answer !== 'string') return []
+  if (findOptionId(options, answer)) return [answer]
+  return answer.split(/[,;]/).map(value => value.trim()).filter(Boolean)
+}
+
+// Answers given as one value per item (or hotspot), in order, become a map keyed by id
+const toRecord = (answer: RawAnswer | undefined, keys: string[]): Record<string, string | string[]> =>
+  Array.isArray(answer)
+    ? Object.fromEntries(keys.map((key, index) => [key, answer[index]]).filter(([, value]) => value !== undefined))
+    : isAnswerRecord(answer) ? answer : {}
+
+type Fixed = Omit<QuestionContent, 'correctAnswer'>
+
+// Checks the answer key against the question's type and options. Returns the question
+// with a usable correctAnswer, or a reason it has to be dropped.
+const fixAnswer = (
+  question: Fixed,
+  answer: RawAnswer | undefined,
+  warn: (message: string) => void
+): QuestionContent | string => {
+  const options = question.options || []
+  const items = question.items || []
+  const needsOptions = ['multiple-choice', 'multi-select', 'ordering', 'matching', 'categorize']
+
+  if (needsOptions.includes(question.type) && options.length === 0) return 'it has no options'
+  if (answer === undefined && question.type !== 'text') return 'it has no correct answer'
+
+  switch (question.type) {
+    case 'true-false': {
+      // Models answer true/false items as "True", "T" or an option id
+      const value = String(answer).trim().toLowerCase()
+      const option = options.find(opt => opt.id.toLowerCase() === value)
+      const meaning = option ? option.text.trim().toLowerCase() : value
+      if (['true', 't', 'yes'].includes(meaning)) return { ...question, correctAnswer: 'true' }
+      if (['false', 'f', 'no'].includes(meaning)) return { ...question, correctAnswer: 'false' }
+      return `the answer "${value}" isn't true or false`
+    }
+
+    case 'multi-select': {
+      const values = toList(answer, options)
+      const ids = values.map(value => findOptionId(options, value)).filter(Boolean) as string[]
+      if (ids.length === 0) return 'none of its answers are among the options'
+      if (ids.length < values.length) warn('answers that aren\'t among the options were left out')
+      return { ...question, correctAnswer: [...new Set(ids)] }
+    }
+
+    case 'ordering': {
+      const ids = toList(answer, options).map(value => findOptionId(options, value))
+      const isComplete = ids.length === options.length &&
+        options.every(option => ids.includes(option.id))
+      return isComplete
+        ? { ...question, correctAnswer: ids as string[] }
+        : 'its answer doesn\'t put every option in order exactly once'
+    }
+
+    case 'matching': {
+      // Without items a matching question is answered like a multiple-choice one
+      if (items.length === 0) break
+      const pairs = Object.entries(toRecord(answer, items.map(item => item.id)))
+        .map(([itemId, value]) => [findOptionId(items, itemId), findOptionId(options, String(value))])
+        .filter(([itemId, optionId]) => itemId && optionId)
+      if (pairs.length === 0) return 'none of its pairs match the items and options'
+      if (pairs.length < items.length) warn('items without a valid match were left out of the answer')
+      return { ...question, correctAnswer: Object.fromEntries(pairs) }
+    }
+
+    case 'categorize': {
+      const record = toRecord(answer, items.map(item => item.id))
+      // Sometimes grouped by category instead: { "a": ["1", "3"], "b": ["2"] }
+      const grouped = Object.values(record).some(value => Array.isArray(value))
+      const entries = grouped
+        ? Object.entries(record).flatMap(([categoryId, itemIds]) =>
+            [itemIds].flat().map(itemId => [itemId, categoryId]))
+        : Object.entries(record)
+      const assignments = Object.fromEntries(entries
+        .map(([itemId, categoryId]) => [findOptionId(items, String(itemId)), findOptionId(options, String(categoryId))])
+        .filter(([itemId, categoryId]) => itemId && categoryId))
+      const sorted = items.filter(item => assignments[item.id])
+      if (sorted.length === 0) return 'none of its items have a category'
+      if (sorted.length < items.length) warn('items without a category were left out')
+      return { ...question, items: sorted, correctAnswer: assignments }
+    }
+
+    case 'label-diagram': {
+      const hotspots = question.hotspots || []
+      if (hotspots.length === 0) return 'it has no markers to label'
+      const record = toRecord(answer, hotspots.map(hotspot => hotspot.id))
+      // Labels should be the word-bank text, not an option id
+      const labels = Object.fromEntries(hotspots
+        .map(hotspot => {
+          const value = record[hotspot.id]
+          const label = typeof value === 'string' ? value : undefined
+          const option = label && options.find(opt => opt.id === label)
+          return [hotspot.id, option ? option.text : label]
+        })
+        .filter(([, label]) => label))
+      const labelled = hotspots.filter(hotspot => labels[hotspot.id])
+      if (labelled.length === 0) return 'none of its markers have a label'
+      if (labelled.length < hotspots.length) warn('markers without a label were left out')
+      if (!question.media?.length) warn('no diagram was found for it')
+      return { ...question, hotspots: labelled, correctAnswer: labels }
+    }
+
+    case 'fill-blank':
+    case 'text': {
+      // A list holds one answer per blank (fill-blank) or alternative model answers (text)
+      if (isAnswerRecord(answer)) return 'its answer isn\'t text'
+      const correctAnswer = Array.isArray(answer) ? answer : answer ?? ''
+      if (question.type === 'fill-blank' && [correctAnswer].flat().every(value => !value)) {
+        return 'it has no correct answer'
+      }
+      return { ...question, correctAnswer }
+    }
+
+    case 'numeric':
+    case 'math': {
+      // Numbers come back as JSON numbers; the client parses answers from strings
+      if (typeof answer !== 'string' || !answer) return 'its answer isn\'t a single value'
+      return { ...question, correctAnswer: answer }
+    }
+  }
+
+  // multiple-choice, and matching without items
+  const value = Array.isArray(answer) && answer.length === 1 ? answer[0] : answer
+  const id = typeof value === 'string' ? findOptionId(options, value) : undefined
+  return id
+    ? { ...question, correctAnswer: id }
+    : `the answer ${JSON.stringify(value)} isn't one of the options`
+}
+
+// Checks and repairs a worksheet as the model returned it. Ids are kept when present
+// and unique, otherwise created with createId. Never throws: anything that can't be
+// used is dropped and listed in warnings.
+export const validateWorksheet = (input: unknown, createId: () => string): ValidationResult => {
+  const warnings: string[] = []
+  const usedIds = new Set<string>()
+  const claimId = (id?: string) => {
+    const claimed = id && !usedIds.has(id) ? id : createId()
+    usedIds.add(claimed)
+    return claimed
+  }
+
+  const parseMedia = (values: unknown[] | undefined, where: string): Media[] | undefined => {
+    const media = parseEach<WithOptionalId<Media>>(mediaSchema, values, (index, error) =>
+      warnings.push(`${where}: figure ${index + 1} was left out (${describeIssue(error)})`))
+    return media?.map(item => ({ ...item, id: claimId(item.id) }))
+  }
+
+  const parseQuestion = (value: unknown, where: string): QuestionContent | null => {
+    const parsed = questionSchema.safeParse(value)
+    if (!parsed.success) {
+      warnings.push(`${where}: skipped (${describeIssue(parsed.error)})`)
+      return null
+    }
+
+    const { correctAnswer, ...raw } = parsed.data
+    const type = normalizeType(raw.type)
+    if (!type) {
+      warnings.push(`${where}: skipped, "${raw.type}" isn't a question type we support`)
+      return null
+    }
+
+    const hotspots = parseEach<WithOptionalId<Hotspot>>(hotspotSchema, raw.hotspots, (index, error) =>
+      warnings.push(`${where}: marker ${index + 1} was left out (${describeIssue(error)})`))
+    const question: Fixed = {
+      ...raw,
+      id: claimId(raw.id),
+      type,
+      text: raw.text,
+      options: assignOptionIds(parseEach<WithOptionalId<Option>>(optionSchema, raw.options, () => undefined),
+        index => String.fromCharCode(97 + index)), // a, b, c, etc.
+      items: assignOptionIds(parseEach<WithOptionalId<Option>>(optionSchema, raw.items, () => undefined),
+        index => String(index + 1)), // 1, 2, 3, etc.
+      media: parseMedia(raw.media, where),
+      // Hotspot ids are the numbers printed on the diagram
+      hotspots: hotspots?.map((hotspot, index) => ({ ...hotspot, id: hotspot.id || String(index + 1) })),
+    }
+
+    const fixed = fixAnswer(question, correctAnswer, message => warnings.push(`${where}: ${message}`))
+    if (typeof fixed === 'string') {
+      warnings.push(`${where}: skipped, ${fixed}`)
+      return null
+    }
+    return fixed
+  }
+
+  const parseSection = (value: unknown, sectionIndex: number): SectionContent | null => {
+    const where = `Section ${sectionIndex + 1}`
+    const parsed = sectionSchema.safeParse(value)
+    if (!parsed.success) {
+      warnings.push(`${where}: skipped (${describeIssue(parsed.error)})`)
+      return null
+    }
+
+    const section = parsed.data
+    const questions = section.questions
+      .map((question, index) => parseQuestion(question, `${where}, question ${index + 1}`))
+      .filter((question): question is QuestionContent => question !== null)
+    if (questions.length === 0) {
+      warnings.push(`${where}: skipped, it has no usable questions`)
+      return null
+    }
+
+    return {
+      id: claimId(section.id),
+      title: section.title || where,
+      instructions: section.instructions,
+      media: parseMedia(section.media, where),
+      page: section.page,
+      questions,
+    }
+  }
+
+  const parsed = worksheetSchema.safeParse(input)
+  if (!parsed.success) {
+    warnings.push(`The response wasn't a worksheet: ${describeIssue(parsed.error)}`)
+    return { worksheet: { id: createId(), title: UNTITLED_WORKSHEET, sections: [] }, warnings }
+  }
+
+  const raw = parsed.data
+  const sections = raw.sections ?? (raw.questions ? [{ title: raw.title, questions: raw.questions }] : [])
+  if (sections.length === 0) warnings.push('No sections were found')
+
+  return {
+    worksheet: {
+      id: claimId(raw.id),
+      title: raw.title,
+      description: raw.description,
+      skipped: raw.skipped?.length ? raw.skipped : undefined,
+      sections: sections
+        .map(parseSection)
+        .filter((section): section is SectionContent => section !== null),
+    },
+    warnings,
+  }
+}
+
+// Total questions left after validation; extractors treat zero as a failed extraction
+export const countQuestions = (worksheet: WorksheetContent): number =>
+  worksheet.sections.reduce((total, section) => total + section.questions.length, 0)
@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { compatibleProvider, mockProvider } from '../_shared/modelProvider.ts'
+import { gradeResponse } from './grader.ts'
+
+const request = {
+  question: 'Why do plants need sunlight?',
+  answer: 'Sunlight powers photosynthesis in their leaves.',
+  modelAnswer: 'Sunlight powers photosynthesis.',
+  maxPoints: 2,
+}
+
+const provider = () => compatibleProvider({
+  name: 'test',
+  baseUrl: 'http://localhost:11434/v1',
+  models: { vision: 'vision', text: 'text', grading: 'grading' },
+})
+
+// A provider whose endpoint replies with `content` as the model's message
+const replyingWith = (content: string) => {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ choices: [{ message: { content } }] }))))
+  return provider()
+}
+
+// A provider whose endpoint answers with `status` and a raw `body`
+const answeringWith = (status: number, body: string) => {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(body, { status })))
+  return provider()
+}
+
+describe('gradeResponse', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('gives no credit for a blank answer without calling the model', async () => {
+    const grade = vi.spyOn(mockProvider, 'grade')
+
+    expect(await gradeResponse({ ...request, answer: '   ' }, mockProvider)).toEqual({
+      points: 0,
+      maxPoints: 2,
+      feedback: 'No answer was given.',
+    })
+    expect(grade).not.toHaveBeenCalled()
+  })
+
+  it('credits the share of the model answer covered with the mock provider', async () => {
+    expect(await gradeResponse(request, mockProvider)).toEqual({
+      points: 2,
+      maxPoints: 2,
+      feedback: 'Covers everything in the model answer.',
+    })
+
+    expect(await gradeResponse({ ...request, answer: 'Photosynthesis.' }, mockProvider)).toEqual({
+      points: 0.67,
+      maxPoints: 2,
+      feedback: 'Mentions 1 of 3 key ideas from the model answer.',
+    })
+  })
+
+  it('falls back to the rubric, and to no credit without either', async () => {
+    const rubric = await gradeResponse(
+      { ...request, modelAnswer: undefined, rubric: 'Mentions photosynthesis' },
+      mockProvider
+    )
+    expect(rubric.points).toBeGreaterThan(0)
+
+    expect(await gradeResponse({ ...request, modelAnswer: undefined }, mockProvider)).toEqual({
+      points: 0,
+      maxPoints: 2,
+      feedback: 'No model answer to grade against.',
+    })
+  })
+
+  it('reads a fenced JSON reply', async () => {
+    const provider = replyingWith('```json\n{"points": 1.5, "feedback": "Nearly there."}\n```')
+    expect(await gradeResponse(request, provider)).toEqual({ points: 1.5, maxPoints: 2, feedback: 'Nearly there.' })
+  })
+
+  it('keeps points the model gives within the question\'s range', async () => {
+    expect((await gradeResponse(request, replyingWith('{"points": 5, "feedback": ""}'))).points).toBe(2)
+    expect((await gradeResponse(request, replyingWith('{"points": -1, "feedback": ""}'))).points).toBe(0)
+  })
+
+  it('gives no credit when the points aren\'t a number', async () => {
+    expect(await gradeResponse(request, replyingWith('{"points": "lots"}'))).toEqual({
+      points: 0,
+      maxPoints: 2,
+      feedback: '',
+    })
+  })
+
+  it('rejects a reply that isn\'t JSON', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    await expect(gradeResponse(request, replyingWith('Great answer, 2 points!'))).rejects.toThrow('Failed to grade response')
+  })
+
+  it('reports the status and the provider\'s message when the request fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    await expect(gradeResponse(request, answeringWith(401, '{"error": {"message": "Invalid API key"}}')))
+      .rejects.toThrow('The test model request failed (401): Invalid API key')
+    await expect(gradeResponse(request, answeringWith(502, '<html><body>Bad gateway</body></html>')))
+      .rejects.toThrow('The test model request failed (502): <html><body>Bad gateway</body></html>')
+  })
+
+  it('rejects a successful response that isn\'t JSON', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    await expect(gradeResponse(request, answeringWith(200, '<html>Sign in</html>')))
+      .rejects.toThrow('The test model returned a response that isn\'t JSON')
+  })
+})
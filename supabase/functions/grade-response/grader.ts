@@ -0,0 +1,14 @@
+import type { GradeRequest, GradeResponse, ModelProvider } from '../_shared/modelProvider.ts'
+
+export type { GradeRequest, GradeResponse } from '../_shared/modelProvider.ts'
+
+export const gradeResponse = async (
+  request: GradeRequest,
+  provider: ModelProvider
+): Promise<GradeResponse> => {
+  if (!request.answer?.trim()) {
+    return { points: 0, maxPoints: request.maxPoints ?? 1, feedback: 'No answer was given.' }
+  }
+
+  return provider.grade(request)
+}
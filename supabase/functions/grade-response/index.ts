@@ -0,0 +1,45 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { getModelProvider } from "../_shared/modelProvider.ts"
+import { gradeResponse, GradeRequest } from "./grader.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const request: GradeRequest = await req.json()
+
+    if (!request.question || typeof request.answer !== 'string') {
+      return new Response(
+        JSON.stringify({ error: 'question and answer are required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    const provider = getModelProvider((key) => Deno.env.get(key))
+    console.log('Grading response with provider:', provider.name)
+
+    const result = await gradeResponse(request, provider)
+
+    return new Response(
+      JSON.stringify(result),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('Error grading response:', error)
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500
+      }
+    )
+  }
+})
@@ -0,0 +1,26 @@
+-- Background extraction jobs, for uploads that take longer than a synchronous function
+-- call allows. Only the service role reads and writes them, through the Netlify job
+-- functions, so row level security is on with no policies.
+create table public.extraction_jobs (
+  id uuid primary key default gen_random_uuid(),
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+  -- The upload as a data URL; cleared once the job succeeds
+  image text,
+  file_type text,
+  -- The latest ExtractionProgress reported by the worker
+  progress jsonb,
+  -- The ExtractionResponse, once succeeded
+  result jsonb,
+  error text,
+  error_stage text,
+  attempts integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  started_at timestamptz,
+  finished_at timestamptz
+);
+
+alter table public.extraction_jobs enable row level security;
+
+create index extraction_jobs_status_created_at_idx on public.extraction_jobs (status, created_at);
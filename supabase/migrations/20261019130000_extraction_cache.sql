@@ -0,0 +1,18 @@
+-- Saved extraction results, so every upload of the same worksheet gets the same answer
+-- key without another model call. `hash` is SHA-256 of the upload or of a PDF's
+-- normalized text; `version` names the prompts and provider that made the result.
+-- Only the service role reads and writes them, so row level security is on with no
+-- policies.
+create table public.extraction_cache (
+  hash text not null,
+  version text not null,
+  -- The ExtractionResponse
+  result jsonb not null,
+  created_at timestamptz not null default now(),
+  primary key (hash, version)
+);
+
+alter table public.extraction_cache enable row level security;
+
+-- Jobs pass the upload's refresh flag on to the worker
+alter table public.extraction_jobs add column refresh boolean not null default false;